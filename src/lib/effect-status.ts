@@ -0,0 +1,50 @@
+import { createAction, createReducer, on, props } from '@ngrx/store';
+
+export interface EffectStatus {
+  loading: boolean;
+  error: any;
+  // Time of the last successful execution, in ms since epoch
+  lastUpdated: number | null;
+  callCount: number;
+}
+
+export type EffectStatusState = Record<string, EffectStatus>;
+
+// Default store slice holding the status of every effect-backed key, visible in DevTools
+export const EFFECT_STATUS_KEY = '__ngrx_wrapper_effect_status__';
+
+export const IDLE_EFFECT_STATUS: EffectStatus = Object.freeze({
+  loading: false,
+  error: null,
+  lastUpdated: null,
+  callCount: 0
+});
+
+export const effectStarted = createAction('[ngrx-store-wrapper] Effect Started', props<{ key: string }>());
+export const effectSucceeded = createAction(
+  '[ngrx-store-wrapper] Effect Succeeded',
+  props<{ key: string; timestamp: number }>()
+);
+export const effectFailed = createAction('[ngrx-store-wrapper] Effect Failed', props<{ key: string; error: any }>());
+export const effectStatusCleared = createAction('[ngrx-store-wrapper] Effect Status Cleared', props<{ key: string }>());
+
+export const effectStatusReducer = createReducer<EffectStatusState>(
+  {},
+  on(effectStarted, (state, { key }) => {
+    const current = state[key] ?? IDLE_EFFECT_STATUS;
+    return { ...state, [key]: { ...current, loading: true, callCount: current.callCount + 1 } };
+  }),
+  on(effectSucceeded, (state, { key, timestamp }) => {
+    const current = state[key] ?? IDLE_EFFECT_STATUS;
+    return { ...state, [key]: { ...current, loading: false, error: null, lastUpdated: timestamp } };
+  }),
+  on(effectFailed, (state, { key, error }) => {
+    const current = state[key] ?? IDLE_EFFECT_STATUS;
+    return { ...state, [key]: { ...current, loading: false, error } };
+  }),
+  on(effectStatusCleared, (state, { key }) => {
+    if (!state[key]) return state;
+    const { [key]: _, ...rest } = state;
+    return rest;
+  })
+);
@@ -0,0 +1,27 @@
+import { applyEntityChange, EntityState } from './entity-key';
+
+interface Todo {
+  id: number;
+  title: string;
+  done?: boolean;
+}
+
+describe('applyEntityChange', () => {
+  const todos: EntityState<Todo> = {
+    ids: [1, 2],
+    entities: { 1: { id: 1, title: 'Write', done: true }, 2: { id: 2, title: 'Review' } }
+  };
+
+  it('shallow-merges upserted records into existing ones and appends new ones', () => {
+    const next = applyEntityChange(todos, {
+      op: 'upsertMany',
+      ids: [1, 3],
+      entities: [{ id: 1, title: 'Rewrite' }, { id: 3, title: 'Ship' }]
+    });
+
+    expect(next.ids).toEqual([1, 2, 3]);
+    expect(next.entities[1]).toEqual({ id: 1, title: 'Rewrite', done: true });
+    expect(next.entities[3]).toEqual({ id: 3, title: 'Ship' });
+    expect(next.entities[2]).toBe(todos.entities[2]);
+  });
+});
@@ -0,0 +1,112 @@
+import { Selector, createSelector } from '@ngrx/store';
+import { StoreKey, StoreKeyOptions, defineStoreKey, isStoreKey } from './store-key';
+
+export type EntityId = string | number;
+
+// Same shape as @ngrx/entity's EntityState
+export interface EntityState<T> {
+  ids: EntityId[];
+  entities: Record<EntityId, T>;
+}
+
+export interface EntityKeyOptions<T> extends Omit<StoreKeyOptions<EntityState<T>>, 'initial'> {
+  // Defaults to `entity.id`
+  selectId?: (entity: T) => EntityId;
+}
+
+export interface EntityKey<T> extends StoreKey<EntityState<T>> {
+  readonly selectId: (entity: T) => EntityId;
+  readonly selectAll: Selector<object, T[]>;
+  readonly selectEntities: Selector<object, Record<EntityId, T>>;
+  readonly selectIds: Selector<object, EntityId[]>;
+  readonly selectTotal: Selector<object, number>;
+  selectById(id: EntityId): Selector<object, T | undefined>;
+}
+
+export interface EntityUpdate<T> {
+  id: EntityId;
+  // Must not change the entity's id
+  changes: Partial<T>;
+}
+
+// Serializable payload of an entity write; ids are resolved before dispatch so reducers stay pure
+export type EntityChange =
+  | { op: 'addOne'; id: EntityId; entity: any }
+  | { op: 'upsertMany'; ids: EntityId[]; entities: any[] }
+  | { op: 'updateOne'; id: EntityId; changes: any }
+  | { op: 'removeOne'; id: EntityId }
+  | { op: 'setAll'; ids: EntityId[]; entities: any[] };
+
+const EMPTY_ENTITY_STATE: EntityState<any> = Object.freeze({ ids: [], entities: {} }) as EntityState<any>;
+
+/**
+ * Defines a key holding a normalised collection of records. The key's value is an
+ * EntityState; use the wrapper's entity methods to change it and the handle's selectors to read it.
+ */
+export function defineEntityKey<T>(key: string, options: EntityKeyOptions<T> = {}): EntityKey<T> {
+  const { selectId = (entity: T) => (entity as any).id, ...keyOptions } = options;
+  const storeKey = defineStoreKey<EntityState<T>>(key, { ...keyOptions, initial: EMPTY_ENTITY_STATE });
+
+  const selectState = (state: any): EntityState<T> => state[key] ?? EMPTY_ENTITY_STATE;
+  const selectIds = createSelector(selectState, state => state.ids);
+  const selectEntities = createSelector(selectState, state => state.entities);
+  const selectAll = createSelector(selectIds, selectEntities, (ids, entities) => ids.map(id => entities[id]));
+  const selectTotal = createSelector(selectIds, ids => ids.length);
+
+  return Object.freeze({
+    ...storeKey,
+    selectId,
+    selectAll,
+    selectEntities,
+    selectIds,
+    selectTotal,
+    selectById: (id: EntityId) => createSelector(selectEntities, entities => entities[id])
+  });
+}
+
+export function isEntityKey(value: unknown): value is EntityKey<any> {
+  return isStoreKey(value) && typeof (value as EntityKey<any>).selectId === 'function';
+}
+
+export function applyEntityChange(state: EntityState<any> | null, change: EntityChange): EntityState<any> {
+  const current = state ?? EMPTY_ENTITY_STATE;
+  switch (change.op) {
+    case 'addOne':
+      if (change.id in current.entities) return current;
+      return { ids: [...current.ids, change.id], entities: { ...current.entities, [change.id]: change.entity } };
+    case 'upsertMany': {
+      if (change.ids.length === 0) return current;
+      const entities = { ...current.entities };
+      const added: EntityId[] = [];
+      change.ids.forEach((id, i) => {
+        if (id in entities) {
+          // Like @ngrx/entity, existing records are shallow-merged rather than replaced
+          entities[id] = { ...entities[id], ...change.entities[i] };
+        } else {
+          added.push(id);
+          entities[id] = change.entities[i];
+        }
+      });
+      return { ids: added.length ? [...current.ids, ...added] : current.ids, entities };
+    }
+    case 'updateOne': {
+      const existing = current.entities[change.id];
+      if (existing === undefined) return current;
+      return { ids: current.ids, entities: { ...current.entities, [change.id]: { ...existing, ...change.changes } } };
+    }
+    case 'removeOne': {
+      if (!(change.id in current.entities)) return current;
+      const { [change.id]: _, ...entities } = current.entities;
+      return { ids: current.ids.filter(id => id !== change.id), entities };
+    }
+    case 'setAll': {
+      const entities: Record<EntityId, any> = {};
+      const ids: EntityId[] = [];
+      change.ids.forEach((id, i) => {
+        if (!(id in entities)) ids.push(id);
+        entities[id] = change.entities[i];
+      });
+      return { ids, entities };
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export interface HistoryOptions {
+  // Maximum number of undo steps kept (default 50)
+  limit?: number;
+  // Record writes made by effects and other tabs as undoable steps instead of starting a new baseline
+  trackExternalWrites?: boolean;
+}
+
+// Bounded undo/redo stacks for one key. Values are stored by reference; dynamic state is immutable.
+export class KeyHistory {
+  private past: any[] = [];
+  private future: any[] = [];
+
+  constructor(readonly options: Required<HistoryOptions>) {}
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  record(previous: any): void {
+    this.past.push(previous);
+    if (this.past.length > this.options.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  // The value undo() would restore, without changing the stacks
+  peekUndo(): { value: any } | undefined {
+    return this.canUndo ? { value: this.past[this.past.length - 1] } : undefined;
+  }
+
+  peekRedo(): { value: any } | undefined {
+    return this.canRedo ? { value: this.future[this.future.length - 1] } : undefined;
+  }
+
+  // Returns the value to restore, or undefined when there is nothing to undo
+  undo(current: any): { value: any } | undefined {
+    if (!this.canUndo) return undefined;
+    this.future.push(current);
+    return { value: this.past.pop() };
+  }
+
+  redo(current: any): { value: any } | undefined {
+    if (!this.canRedo) return undefined;
+    this.past.push(current);
+    return { value: this.future.pop() };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -0,0 +1,30 @@
+import { Observable } from 'rxjs';
+import { EffectStatus } from './effect-status';
+import { StoreKeyRef } from './store-key';
+
+export interface MutationHttpOptions<I> {
+  url: string | ((input: I) => string);
+  method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  // Builds the request body; defaults to the input itself
+  body?: (input: I) => any;
+}
+
+export interface MutationOptions<I = any, R = any, T = any> {
+  // Key the optimistic value is written to
+  key: StoreKeyRef<T>;
+  serviceFn?: (input: I) => Observable<R>;
+  context?: any;
+  http?: MutationHttpOptions<I>;
+  // Value shown until the server responds; rolled back if the request fails
+  optimistic?: (current: T, input: I) => T;
+  // Effect keys refetched after a successful mutation
+  invalidates?: StoreKeyRef[];
+}
+
+export interface Mutation<I = any, R = any> {
+  // Starts the mutation right away. Subscribe to the returned observable for the server response.
+  mutate(input: I): Observable<R>;
+  // `loading` is true while any call of this mutation is in flight
+  readonly status$: Observable<EffectStatus>;
+}
@@ -0,0 +1,38 @@
+import { EnvironmentInjector, createEnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { provideNgrxStoreWrapper } from './ngrx-store-wrapper-wrapper';
+
+describe('provideNgrxStoreWrapper', () => {
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideNgrxStoreWrapper()]
+    });
+  });
+
+  const createChildInstance = () => createEnvironmentInjector(
+    [provideNgrxStoreWrapper({ storageKeyPrefix: 'child:', bindStoreWrapper: false })],
+    TestBed.inject(EnvironmentInjector)
+  ).get(NgrxStoreWrapperService);
+
+  it('gives a child injector its own instance on the same store', () => {
+    const parent = TestBed.inject(NgrxStoreWrapperService);
+    const child = createChildInstance();
+    child.set('draft', 'text');
+
+    expect(child).not.toBe(parent);
+    expect(parent.getSignal('draft')()).toBe('text');
+  });
+
+  it('refuses to take over a key another instance registered', () => {
+    const parent = TestBed.inject(NgrxStoreWrapperService);
+    const child = createChildInstance();
+    parent.set('cart', [1]);
+
+    expect(() => child.set('cart', [2])).toThrowError(/already has a reducer/);
+    expect(parent.getSignal('cart')()).toEqual([1]);
+  });
+});
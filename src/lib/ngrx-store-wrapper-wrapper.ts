@@ -1,85 +1,295 @@
-import { inject, runInInjectionContext, EnvironmentInjector } from '@angular/core';
+import {
+  inject,
+  makeEnvironmentProviders,
+  runInInjectionContext,
+  DestroyRef,
+  ENVIRONMENT_INITIALIZER,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  InjectionToken,
+  Signal,
+  Type
+} from '@angular/core';
 import { Store, Selector } from '@ngrx/store';
 import { ReducerManager } from '@ngrx/store';
-import { NgrxStoreWrapperService, StoreState } from './ngrx-store-wrapper.service';
-import { StorageType } from './storage-type.enum';
+import {
+  EffectOptions,
+  HttpEffectOptions,
+  KeyDescription,
+  NgrxStoreWrapperService,
+  SetOptions,
+  SignalOptions,
+  StorePath
+} from './ngrx-store-wrapper.service';
+import { StoreKey, StoreKeyRef, StoreKeyValues } from './store-key';
+import { StorageAdapter, StorageTarget } from './storage-adapter';
+import { PERSISTENCE_DEFAULTS, PersistenceOptions } from './persistence-options';
+import { EffectStatus } from './effect-status';
+import { HistoryOptions } from './key-history';
+import { StoreScope } from './store-scope';
+import { EntityId, EntityKey, EntityUpdate } from './entity-key';
+import { Mutation, MutationOptions } from './mutation';
+import { NGRX_STORE_WRAPPER_CONFIG, NgrxStoreWrapperConfig } from './store-wrapper-config';
+import { ACTION_TYPE_FORMAT } from './write-meta';
+import { KeyValidator, WriteInterceptor } from './write-validation';
+import { StoreWrapperEvent } from './store-events';
+import { addStoreEffects } from './store-effects';
 import { Observable } from 'rxjs';
 
 let initialized = false;
 
 let service: NgrxStoreWrapperService;
-let store: Store<StoreState>;
-let reducerManager: ReducerManager;
 
+// Lazy setup for apps that don't use provideNgrxStoreWrapper(); needs an injection context on first use
 function ensureInitialized() {
   if (!initialized) {
     runInInjectionContext(inject(EnvironmentInjector), () => {
       service = inject(NgrxStoreWrapperService);
-      store = inject(Store);
-      reducerManager = inject(ReducerManager);
+      service.initializeStore(inject(Store), inject(ReducerManager));
     });
-
-    service.initializeStore(store, reducerManager);
     initialized = true;
   }
 }
 
+/**
+ * Binds storeWrapper to the current injector, dropping the service from a previous one.
+ * Must run in an injection context; provideStoreWrapperTesting() calls it for every TestBed.
+ * Internal: not exported from the public API.
+ */
+export function resetStoreWrapper(): void {
+  initialized = false;
+  ensureInitialized();
+}
+
+// The instance set up by provideNgrxStoreWrapper(), resolved once per injector whichever initializer asks first
+const CONFIGURED_STORE_WRAPPER = new InjectionToken<NgrxStoreWrapperService>('configured ngrx-store-wrapper');
+
+/**
+ * Configures the wrapper and sets it up at bootstrap. Each injector that includes these providers
+ * gets its own wrapper instance; give instances that share browser storage distinct `storageKeyPrefix`es.
+ */
+export function provideNgrxStoreWrapper(config: NgrxStoreWrapperConfig = {}): EnvironmentProviders {
+  const { actionTypeFormat, persistence, storageAdapters = {}, bindStoreWrapper = true } = config;
+  return makeEnvironmentProviders([
+    { provide: NGRX_STORE_WRAPPER_CONFIG, useValue: config },
+    NgrxStoreWrapperService,
+    actionTypeFormat ? [{ provide: ACTION_TYPE_FORMAT, useValue: actionTypeFormat }] : [],
+    persistence ? [{ provide: PERSISTENCE_DEFAULTS, useValue: persistence }] : [],
+    {
+      provide: CONFIGURED_STORE_WRAPPER,
+      useFactory: () => {
+        const instance = inject(NgrxStoreWrapperService);
+        Object.entries(storageAdapters).forEach(([name, adapter]) => instance.registerStorageAdapter(name, adapter));
+        instance.initializeStore(inject(Store), inject(ReducerManager));
+        if (bindStoreWrapper) {
+          service = instance;
+          initialized = true;
+        }
+        return instance;
+      }
+    },
+    {
+      provide: ENVIRONMENT_INITIALIZER,
+      multi: true,
+      useValue: () => inject(CONFIGURED_STORE_WRAPPER)
+    }
+  ]);
+}
+
+/**
+ * Adds the effects declared with @StoreEffect() on the given classes once the injector is created.
+ * The classes are injected through their own providers (e.g. providedIn: 'root'), and each instance's
+ * effects are removed when that instance is destroyed.
+ */
+export function provideStoreEffects(...types: Type<object>[]): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    {
+      provide: ENVIRONMENT_INITIALIZER,
+      multi: true,
+      useValue: () => {
+        const wrapper = inject(CONFIGURED_STORE_WRAPPER, { optional: true }) ?? inject(NgrxStoreWrapperService);
+        // Without provideNgrxStoreWrapper() the store is set up here, as storeWrapper does on first use
+        wrapper.initializeStore(inject(Store), inject(ReducerManager));
+        types.forEach(type => addStoreEffects(wrapper, inject(type)));
+      }
+    }
+  ]);
+}
+
 export const storeWrapper = {
-  set: (key: string, value: any) => {
+  set: <T = any>(key: StoreKeyRef<T>, value: T, options?: SetOptions) => {
     ensureInitialized();
-    service.set(key, value);
+    service.set(key, value, options);
   },
-  get: <T = any, State = any>(identifier: string | Selector<State, T>): Observable<T> => {
+  update: <T = any>(key: StoreKeyRef<T>, updater: (current: T) => T) => {
     ensureInitialized();
-    if (typeof identifier === 'string') {
-      return service.get(identifier) as Observable<T>;
-    } else {
+    service.update(key, updater);
+  },
+  patch: <T = any>(key: StoreKeyRef<T>, partial: Partial<T>) => {
+    ensureInitialized();
+    service.patch(key, partial);
+  },
+  setIn: <T = any>(key: StoreKeyRef<T>, path: StorePath, value: any) => {
+    ensureInitialized();
+    service.setIn(key, path, value);
+  },
+  setMany: (values: Record<string, any>) => {
+    ensureInitialized();
+    service.setMany(values);
+  },
+  transaction: <R>(fn: () => R): R => {
+    ensureInitialized();
+    return service.transaction(fn);
+  },
+  addOne: <T>(key: EntityKey<T>, entity: T) => {
+    ensureInitialized();
+    service.addOne(key, entity);
+  },
+  upsertMany: <T>(key: EntityKey<T>, entities: T[]) => {
+    ensureInitialized();
+    service.upsertMany(key, entities);
+  },
+  updateOne: <T>(key: EntityKey<T>, update: EntityUpdate<T>) => {
+    ensureInitialized();
+    service.updateOne(key, update);
+  },
+  removeOne: <T>(key: EntityKey<T>, id: EntityId) => {
+    ensureInitialized();
+    service.removeOne(key, id);
+  },
+  setAll: <T>(key: EntityKey<T>, entities: T[]) => {
+    ensureInitialized();
+    service.setAll(key, entities);
+  },
+  get: <T = any, State = any>(identifier: StoreKeyRef<T> | Selector<State, T>): Observable<T> => {
+    ensureInitialized();
+    if (typeof identifier === 'function') {
       return service.get<State, T>(identifier);
+    } else {
+      return service.get<T>(identifier);
     }
   },
-  remove: (key: string) => {
+  getSignal: (<T = any>(key: StoreKeyRef<T>, options?: SignalOptions<T>): Signal<T | undefined> => {
+    ensureInitialized();
+    return service.getSignal(key, options);
+  }) as NgrxStoreWrapperService['getSignal'],
+  select: <State = any, T = any>(
+    selector: Selector<State, T>,
+    options?: Omit<SignalOptions<T>, 'initialValue'>
+  ): Signal<T> => {
+    ensureInitialized();
+    return service.select(selector, options);
+  },
+  getStatus: (key: StoreKeyRef): Observable<EffectStatus> => {
+    ensureInitialized();
+    return service.getStatus(key);
+  },
+  get events$(): Observable<StoreWrapperEvent> {
+    ensureInitialized();
+    return service.events$;
+  },
+  defineComputed: <R, D extends StoreKeyRef[]>(
+    key: StoreKeyRef<R>,
+    deps: [...D],
+    projector: (...values: StoreKeyValues<D>) => R
+  ) => {
+    ensureInitialized();
+    service.defineComputed(key, deps, projector);
+  },
+  enableHistory: (key: StoreKeyRef, options?: HistoryOptions) => {
+    ensureInitialized();
+    service.enableHistory(key, options);
+  },
+  disableHistory: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.disableHistory(key);
+  },
+  undo: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.undo(key);
+  },
+  redo: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.redo(key);
+  },
+  canUndo$: (key: StoreKeyRef): Observable<boolean> => {
+    ensureInitialized();
+    return service.canUndo$(key);
+  },
+  canRedo$: (key: StoreKeyRef): Observable<boolean> => {
+    ensureInitialized();
+    return service.canRedo$(key);
+  },
+  clearHistory: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.clearHistory(key);
+  },
+  describeKeys: (): KeyDescription[] => {
+    ensureInitialized();
+    return service.describeKeys();
+  },
+  createScope: (name: string, destroyRef?: DestroyRef): StoreScope => {
+    ensureInitialized();
+    return service.createScope(name, destroyRef);
+  },
+  remove: (key: StoreKeyRef) => {
     ensureInitialized();
     service.remove(key);
   },
-  enablePersistence: (key: string, type: StorageType) => {
+  enablePersistence: <T = any>(key: StoreKeyRef<T>, type?: StorageTarget, options?: PersistenceOptions<T>) => {
     ensureInitialized();
-    service.enablePersistence(key, type);
+    service.enablePersistence(key as StoreKey<T>, type, options);
   },
-  disablePersistence: (key: string) => {
+  disablePersistence: (key: StoreKeyRef) => {
     ensureInitialized();
     service.disablePersistence(key);
   },
-  addEffect: (options: {
-    key: string;
-    serviceFn: (...args: any[]) => Observable<any>;
-    context?: any;
-    args?: any;
-    intervalMs?: number;
-    immediate?: boolean;
-    transform?: (result: any) => any;
-  }) => {
+  registerStorageAdapter: (name: StorageTarget, adapter: StorageAdapter) => {
+    ensureInitialized();
+    service.registerStorageAdapter(name, adapter);
+  },
+  whenRestored: (key?: StoreKeyRef): Promise<void> => {
+    ensureInitialized();
+    return service.whenRestored(key);
+  },
+  addEffect: <T = any, R = T>(options: EffectOptions<T, R>) => {
     ensureInitialized();
     service.addEffect(options);
   },
-  addHttpEffect: (options: {
-    key: string;
-    url: string;
-    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
-    body?: any;
-    headers?: Record<string, string>;
-    intervalMs?: number;
-    immediate?: boolean;
-    transform?: (result: any) => any;
-  }) => {
+  addHttpEffect: <T = any, R = T>(options: HttpEffectOptions<T, R>) => {
     ensureInitialized();
     service.addHttpEffect(options);
   },
-  removeEffect: (key: string) => {
+  removeEffect: (key: StoreKeyRef) => {
     ensureInitialized();
     service.removeEffect(key);
   },
-  recallEffect: (key: string, updatedData?: any) => {
+  recallEffect: (key: StoreKeyRef, updatedData?: any) => {
     ensureInitialized();
     service.recallEffect(key, updatedData);
+  },
+  invalidate: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.invalidate(key);
+  },
+  invalidateMatching: (prefix: string) => {
+    ensureInitialized();
+    service.invalidateMatching(prefix);
+  },
+  addMutation: <I = any, R = any, T = any>(options: MutationOptions<I, R, T>): Mutation<I, R> => {
+    ensureInitialized();
+    return service.addMutation(options);
+  },
+  registerSchema: <T = any>(key: StoreKeyRef<T>, validator: KeyValidator<T>) => {
+    ensureInitialized();
+    service.registerSchema(key, validator);
+  },
+  unregisterSchema: (key: StoreKeyRef) => {
+    ensureInitialized();
+    service.unregisterSchema(key);
+  },
+  addWriteInterceptor: (interceptor: WriteInterceptor): (() => void) => {
+    ensureInitialized();
+    return service.addWriteInterceptor(interceptor);
   }
 };
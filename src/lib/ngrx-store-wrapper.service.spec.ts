@@ -1,16 +1,822 @@
-import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID, TransferState, makeStateKey } from '@angular/core';
+import { TestBed, discardPeriodicTasks, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { Action, ActionsSubject, ReducerManager, Store, provideStore } from '@ngrx/store';
+import { NEVER, Subject, defer, of, throwError } from 'rxjs';
 
-import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { EffectConcurrency, NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { StoreWrapperTestingController, provideStoreWrapperTesting } from './store-wrapper-testing';
+import { EffectStatus } from './effect-status';
+import { StorageType } from './storage-type.enum';
+import { PersistenceTransformUnavailableError } from './persistence-options';
+import { defineEntityKey } from './entity-key';
+import { defineStoreKey } from './store-key';
+import { StoreWriteRejectedError } from './write-validation';
+import { MutationOptions } from './mutation';
+
+const META_KEY = '__ngrx_wrapper_persisted_keys__';
+const ratesStateKey = makeStateKey<number[]>('__ngrx_wrapper_effect__:rates');
 
 describe('NgrxStoreWrapperService', () => {
   let service: NgrxStoreWrapperService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideStoreWrapperTesting()]
+    });
     service = TestBed.inject(NgrxStoreWrapperService);
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  describe('writes', () => {
+    it('keeps the actions of keys apart whose names run into a write kind', () => {
+      service.set('Info', 1);
+      service.set('fo', 2);
+      service.set('Info', 3);
+
+      expect(service.getSignal('Info')()).toBe(3);
+      expect(service.getSignal('fo')()).toBe(2);
+    });
+
+    it('dispatches update() with the resolved value instead of the updater', () => {
+      const actions: Action[] = [];
+      TestBed.inject(ActionsSubject).subscribe(action => actions.push(action));
+      service.set('count', 1);
+      service.update<number>('count', count => count + 1);
+
+      const update = actions[actions.length - 1] as any;
+      expect(update.type).toBe('[count] Update');
+      expect(update.value).toBe(2);
+      expect(Object.values(update).some(value => typeof value === 'function')).toBeFalse();
+      expect(service.getSignal('count')()).toBe(2);
+    });
+
+    it('applies updates in a transaction on top of the pending value', () => {
+      service.set('count', 1);
+      service.transaction(() => {
+        service.update<number>('count', count => count + 1);
+        service.update<number>('count', count => count * 10);
+      });
+
+      expect(service.getSignal('count')()).toBe(20);
+    });
+
+    it('removes the keys a failed transaction created', () => {
+      service.set('count', 1);
+      expect(() => service.transaction(() => {
+        service.set('count', 2);
+        service.set('draft', 'text');
+        throw new Error('abort');
+      })).toThrowError('abort');
+
+      expect(service.getSignal('count')()).toBe(1);
+      expect(service.describeKeys().map(({ key }) => key)).not.toContain('draft');
+
+      service.set('draft', 'text');
+      expect(service.getSignal('draft')()).toBe('text');
+    });
+  });
+
+  describe('ttl', () => {
+    it('removes a key once its ttl runs out', fakeAsync(() => {
+      service.set('token', 'abc', { ttlMs: 1000 });
+      tick(999);
+      expect(service.getSignal('token')()).toBe('abc');
+
+      tick(1);
+      expect(service.describeKeys().map(({ key }) => key)).not.toContain('token');
+    }));
+
+    it('restarts the ttl on every write and resets the value with onExpire: \'reset\'', fakeAsync(() => {
+      service.set('filter', 'open', { ttlMs: 1000, onExpire: 'reset' });
+      tick(600);
+      service.set('filter', 'closed');
+      tick(600);
+      expect(service.getSignal('filter')()).toBe('closed');
+
+      tick(400);
+      expect(service.getSignal('filter')()).toBeNull();
+    }));
+
+    it('does not keep the ttl of a write that a transaction discarded', fakeAsync(() => {
+      service.set('token', 'abc');
+      expect(() => service.transaction(() => {
+        service.set('token', 'def', { ttlMs: 100 });
+        throw new Error('abort');
+      })).toThrowError('abort');
+      service.set('token', 'ghi');
+      tick(100);
+
+      expect(service.describeKeys().map(({ key }) => key)).toContain('token');
+      expect(service.getSignal('token')()).toBe('ghi');
+    }));
+  });
+
+  describe('entities', () => {
+    interface Todo {
+      id: number;
+      title: string;
+    }
+    const todos = defineEntityKey<Todo>('todos');
+
+    it('keeps the collection normalised across entity writes', () => {
+      service.setAll(todos, [{ id: 1, title: 'Write' }, { id: 2, title: 'Review' }]);
+      service.updateOne(todos, { id: 1, changes: { title: 'Rewrite' } });
+      service.removeOne(todos, 2);
+      service.addOne(todos, { id: 3, title: 'Ship' });
+
+      expect(service.select(todos.selectAll)()).toEqual([{ id: 1, title: 'Rewrite' }, { id: 3, title: 'Ship' }]);
+      expect(service.select(todos.selectTotal)()).toBe(2);
+    });
+
+    it('refuses entity writes to a plain key', () => {
+      expect(() => service.addOne('todos' as any, { id: 1 })).toThrowError(/requires an entity key/);
+    });
+  });
+
+  describe('schemas', () => {
+    it('rejects a write that fails the registered validator and keeps the value', () => {
+      service.registerSchema<number>('quantity', quantity => quantity >= 0);
+      service.set('quantity', 2);
+
+      expect(() => service.set('quantity', -1)).toThrowError(StoreWriteRejectedError);
+      expect(service.getSignal('quantity')()).toBe(2);
+    });
+  });
+
+  describe('effects', () => {
+    let testing: StoreWrapperTestingController;
+    let status: EffectStatus;
+
+    beforeEach(() => {
+      testing = TestBed.inject(StoreWrapperTestingController);
+      spyOn(console, 'error');
+    });
+
+    const watchStatus = (key: string) =>
+      TestBed.runInInjectionContext(() => service.getStatus(key).subscribe(current => (status = current)));
+
+    it('keeps the status when an effect is registered again', () => {
+      testing.stubEffectError('rates', 'offline');
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {} });
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {}, immediate: false });
+      watchStatus('rates');
+
+      expect(status.error).toBe('offline');
+      expect(status.callCount).toBe(1);
+    });
+
+    it('clears the status when the key is removed', () => {
+      testing.stubEffectError('rates', 'offline');
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {} });
+      watchStatus('rates');
+      service.remove('rates');
+
+      expect(status.error).toBeNull();
+      expect(status.callCount).toBe(0);
+    });
+
+    it('starts polling with a run when the effect is not immediate', () => {
+      testing.stubEffect('rates', 5);
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {}, intervalMs: 1000, immediate: false });
+      expect(testing.writes('rates').length).toBe(1);
+
+      testing.flushPolling('rates');
+      expect(testing.writes('rates').length).toBe(2);
+    });
+
+    it('refetches on invalidate() while the key has get() subscribers', () => {
+      testing.stubEffect('rates', 5);
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {} });
+      const subscription = service.get('rates').subscribe();
+      service.invalidate('rates');
+      expect(testing.writes('rates').length).toBe(2);
+
+      subscription.unsubscribe();
+      service.invalidate('rates');
+      expect(testing.writes('rates').length).toBe(2);
+    });
+
+    it('refetches an invalidated key without subscribers on its next trigger', () => {
+      testing.stubEffect('rates', 5);
+      service.addEffect({ key: 'rates', serviceFn: () => of(1), context: {}, staleTime: 60000 });
+      service.recallEffect('rates');
+      expect(testing.writes('rates').length).toBe(1);
+
+      service.invalidate('rates');
+      expect(testing.writes('rates').length).toBe(1);
+      service.recallEffect('rates');
+      expect(testing.writes('rates').length).toBe(2);
+    });
+
+    it('keeps running after a cached result fails to be written', () => {
+      let fetched = 0;
+      testing.stubEffect('rates', defer(() => of(++fetched)));
+      service.addEffect({ key: 'rates', serviceFn: () => of(0), context: {}, args: 'eur' });
+      service.recallEffect('rates', 'usd');
+      const removeInterceptor = service.addWriteInterceptor(write => {
+        if (write.value === 1) write.reject('outdated');
+      });
+      service.recallEffect('rates', 'eur');
+      removeInterceptor();
+      service.recallEffect('rates', 'usd');
+
+      expect(service.getSignal('rates')()).toBe(3);
+    });
+
+    it('only compiles when the result matches the key, directly or through transform', () => {
+      const user = defineStoreKey<{ name: string }>('user');
+      service.addEffect({ key: user, serviceFn: () => of({ name: 'Ada' }), context: {} });
+      service.addEffect({ key: user, serviceFn: () => of('Grace'), context: {}, transform: name => ({ name }) });
+      expect(service.getSignal(user)()).toEqual({ name: 'Grace' });
+
+      const mismatched = () => {
+        // @ts-expect-error a number can't be written to a user key
+        service.addEffect({ key: user, serviceFn: () => of(1), context: {} });
+        // @ts-expect-error transform has to produce a user
+        service.addEffect({ key: user, serviceFn: () => of(1), context: {}, transform: id => id });
+        // @ts-expect-error transform has to produce a user
+        service.addHttpEffect({ key: user, url: '/api/user', transform: (id: number) => id });
+      };
+      expect(mismatched).toEqual(jasmine.any(Function));
+    });
+
+    it('throws from addEffect() when the serviceFn cannot be bound', () => {
+      expect(() => service.addEffect({ key: 'rates', serviceFn: () => of(1) }))
+        .toThrowError(/Failed to auto-bind serviceFn/);
+    });
+  });
+
+  describe('effect execution', () => {
+    let requests: Map<string, Subject<string>>;
+    let status: EffectStatus;
+
+    beforeEach(() => {
+      requests = new Map();
+      spyOn(console, 'error');
+      TestBed.runInInjectionContext(() => service.getStatus('rates').subscribe(current => (status = current)));
+    });
+
+    // Every execution gets its own request, answered with respond()
+    const addRatesEffect = (concurrency: EffectConcurrency) => service.addEffect({
+      key: 'rates',
+      serviceFn: (currency: string) => {
+        const request = new Subject<string>();
+        requests.set(currency, request);
+        return request;
+      },
+      context: {},
+      args: 'eur',
+      concurrency
+    });
+    const respond = (currency: string) => {
+      requests.get(currency)!.next(currency);
+      requests.get(currency)!.complete();
+    };
+    const inFlight = (currency: string) => requests.get(currency)?.observed ?? false;
+
+    it('retries with a doubling backoff', fakeAsync(() => {
+      let calls = 0;
+      service.addEffect({
+        key: 'rates',
+        serviceFn: () => defer(() => ++calls < 3 ? throwError(() => new Error('offline')) : of(calls)),
+        context: {},
+        retry: { count: 2, backoff: 100 }
+      });
+      expect(calls).toBe(1);
+
+      tick(100);
+      expect(calls).toBe(2);
+      tick(199);
+      expect(calls).toBe(2);
+      tick(1);
+      expect(calls).toBe(3);
+      expect(service.getSignal('rates')()).toBe(3);
+      expect(status.error).toBeNull();
+    }));
+
+    it('fails an execution that takes longer than timeoutMs', fakeAsync(() => {
+      service.addEffect({ key: 'rates', serviceFn: () => NEVER, context: {}, timeoutMs: 1000 });
+      tick(999);
+      expect(status.loading).toBeTrue();
+
+      tick(1);
+      expect(status.loading).toBeFalse();
+      expect(status.error).toEqual(jasmine.objectContaining({ name: 'TimeoutError' }));
+    }));
+
+    it('cancels the running execution with switch', fakeAsync(() => {
+      addRatesEffect('switch');
+      service.recallEffect('rates', 'usd');
+      tick();
+
+      expect(inFlight('eur')).toBeFalse();
+      respond('usd');
+      expect(service.getSignal('rates')()).toBe('usd');
+      discardPeriodicTasks();
+    }));
+
+    it('runs executions side by side with merge', fakeAsync(() => {
+      addRatesEffect('merge');
+      service.recallEffect('rates', 'usd');
+      respond('usd');
+      expect(service.getSignal('rates')()).toBe('usd');
+
+      respond('eur');
+      expect(service.getSignal('rates')()).toBe('eur');
+      discardPeriodicTasks();
+    }));
+
+    it('ignores new executions while one runs with exhaust', fakeAsync(() => {
+      addRatesEffect('exhaust');
+      service.recallEffect('rates', 'usd');
+      expect(requests.has('usd')).toBeFalse();
+
+      respond('eur');
+      service.recallEffect('rates', 'gbp');
+      expect(requests.has('gbp')).toBeTrue();
+      discardPeriodicTasks();
+    }));
+
+    it('queues new executions with concat', fakeAsync(() => {
+      addRatesEffect('concat');
+      service.recallEffect('rates', 'usd');
+      expect(requests.has('usd')).toBeFalse();
+
+      respond('eur');
+      expect(requests.has('usd')).toBeTrue();
+      respond('usd');
+      expect(service.getSignal('rates')()).toBe('usd');
+      discardPeriodicTasks();
+    }));
+
+    it('cancels the execution in flight on removeEffect()', fakeAsync(() => {
+      addRatesEffect('switch');
+      expect(inFlight('eur')).toBeTrue();
+      service.removeEffect('rates');
+      tick();
+
+      expect(inFlight('eur')).toBeFalse();
+    }));
+  });
+
+  describe('effect deps', () => {
+    let calls: unknown[][];
+
+    beforeEach(() => {
+      calls = [];
+      service.set('currency', 'eur');
+      service.set('day', 1);
+    });
+
+    const fetchRates = (...args: unknown[]) => {
+      calls.push(args);
+      return of(args);
+    };
+
+    it('runs with the dependency values and again whenever one changes', fakeAsync(() => {
+      service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, deps: ['currency', 'day'] });
+      tick();
+      service.set('day', 2);
+      tick();
+      service.set('day', 2);
+      tick();
+
+      expect(calls).toEqual([['eur', 1], ['eur', 2]]);
+    }));
+
+    it('waits until every dependency has a value', fakeAsync(() => {
+      service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, deps: ['currency', 'region'] });
+      tick();
+      expect(calls).toEqual([]);
+
+      service.set('region', 'eu');
+      tick();
+      expect(calls).toEqual([['eur', 'eu']]);
+    }));
+
+    it('maps the values of a selector with mapDeps', fakeAsync(() => {
+      service.addEffect({
+        key: 'rates',
+        serviceFn: fetchRates,
+        context: {},
+        deps: (state: any) => state.currency,
+        mapDeps: currency => [`/api/rates/${currency}`]
+      });
+      tick();
+
+      expect(calls).toEqual([['/api/rates/eur']]);
+    }));
+
+    it('runs once for changes within depsDebounceMs', fakeAsync(() => {
+      service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, deps: ['day'], depsDebounceMs: 100 });
+      tick(100);
+      service.set('day', 2);
+      tick(50);
+      service.set('day', 3);
+      tick(99);
+      expect(calls).toEqual([[1]]);
+
+      tick(1);
+      expect(calls).toEqual([[1], [3]]);
+    }));
+
+    it('stops watching the deps on removeEffect() and remove()', fakeAsync(() => {
+      service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, deps: ['day'] });
+      service.addEffect({ key: 'fees', serviceFn: fetchRates, context: {}, deps: ['day'] });
+      tick();
+      service.removeEffect('rates');
+      service.remove('fees');
+      service.set('day', 2);
+      tick();
+
+      expect(calls).toEqual([[1], [1]]);
+    }));
+  });
+
+  describe('mutations', () => {
+    let requests: Map<string, Subject<string>>;
+    let status: EffectStatus;
+
+    beforeEach(() => {
+      requests = new Map();
+      spyOn(console, 'error');
+    });
+
+    const addItemMutation = (options: Partial<MutationOptions<string, string, string[]>> = {}) => {
+      const mutation = service.addMutation<string, string, string[]>({
+        key: 'cart',
+        serviceFn: item => {
+          const request = new Subject<string>();
+          requests.set(item, request);
+          return request;
+        },
+        context: {},
+        optimistic: (cart, item) => [...(cart ?? []), item],
+        ...options
+      });
+      mutation.status$.subscribe(current => (status = current));
+      return mutation;
+    };
+    const respond = (item: string) => {
+      requests.get(item)!.next(item);
+      requests.get(item)!.complete();
+    };
+    const fail = (item: string) => requests.get(item)!.error(new Error('offline'));
+
+    it('shows the optimistic value and rolls it back when the request fails', () => {
+      service.set('cart', ['a']);
+      let error: unknown;
+      addItemMutation().mutate('b').subscribe({ error: e => (error = e) });
+      expect(service.getSignal('cart')()).toEqual(['a', 'b']);
+
+      fail('b');
+      expect(service.getSignal('cart')()).toEqual(['a']);
+      expect(error).toEqual(new Error('offline'));
+    });
+
+    it('keeps a value written after the optimistic one when the request fails', () => {
+      service.set('cart', ['a']);
+      addItemMutation().mutate('b').subscribe({ error: () => {} });
+      service.set('cart', ['server']);
+
+      fail('b');
+      expect(service.getSignal('cart')()).toEqual(['server']);
+    });
+
+    it('removes a key the failed mutation created', () => {
+      addItemMutation().mutate('a').subscribe({ error: () => {} });
+      expect(service.getSignal('cart')()).toEqual(['a']);
+
+      fail('a');
+      expect(service.describeKeys().map(({ key }) => key)).not.toContain('cart');
+    });
+
+    it('settles the status and the result when the rollback is rejected', () => {
+      service.set('cart', ['a']);
+      let error: unknown;
+      addItemMutation().mutate('b').subscribe({ error: e => (error = e) });
+      service.registerSchema<string[]>('cart', cart => cart.includes('b'));
+
+      expect(() => fail('b')).not.toThrow();
+      expect(service.getSignal('cart')()).toEqual(['a', 'b']);
+      expect(status.loading).toBeFalse();
+      expect(status.error).toEqual(new Error('offline'));
+      expect(error).toEqual(new Error('offline'));
+    });
+
+    it('refetches the invalidated effects once the server confirms', () => {
+      const testing = TestBed.inject(StoreWrapperTestingController);
+      testing.stubEffect('orders', 5);
+      service.addEffect({ key: 'orders', serviceFn: () => of(1), context: {} });
+      addItemMutation({ invalidates: ['orders'] }).mutate('a');
+      expect(testing.writes('orders').length).toBe(1);
+
+      respond('a');
+      expect(testing.writes('orders').length).toBe(2);
+    });
+
+    it('stays loading while any call is in flight', () => {
+      const mutation = addItemMutation();
+      mutation.mutate('a');
+      mutation.mutate('b');
+      expect(status.loading).toBeTrue();
+
+      respond('a');
+      expect(status.loading).toBeTrue();
+      respond('b');
+      expect(status.loading).toBeFalse();
+      expect(status.callCount).toBe(2);
+      expect(service.getSignal('cart')()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('computed keys', () => {
+    it('reads a computed dependency that is defined later', () => {
+      service.set('price', 10);
+      service.defineComputed<number, ['net']>('gross', ['net'], net => net * 2);
+      service.defineComputed<number, ['price']>('net', ['price'], price => price + 1);
+
+      expect(service.getSignal('gross')()).toBe(22);
+      service.set('price', 20);
+      expect(service.getSignal('gross')()).toBe(42);
+    });
+
+    it('runs an effect that depends on a computed key', fakeAsync(() => {
+      const testing = TestBed.inject(StoreWrapperTestingController);
+      testing.stubEffect('quote', 1);
+      service.set('price', 10);
+      service.defineComputed<number, ['price']>('gross', ['price'], price => price * 2);
+      service.addEffect({ key: 'quote', serviceFn: (gross: number) => of(gross), context: {}, deps: ['gross'] });
+      tick();
+      expect(testing.writes('quote').length).toBe(1);
+
+      service.set('price', 20);
+      tick();
+      expect(testing.writes('quote').length).toBe(2);
+    }));
+  });
+
+  describe('history', () => {
+    const canUndo = (key: string) => {
+      let can = false;
+      service.canUndo$(key).subscribe(current => (can = current)).unsubscribe();
+      return can;
+    };
+
+    beforeEach(() => {
+      service.set('count', 1);
+      service.enableHistory('count', { limit: 2 });
+    });
+
+    it('steps back and forth through manual writes', () => {
+      service.set('count', 2);
+      service.set('count', 3);
+      service.undo('count');
+      service.undo('count');
+      expect(service.getSignal('count')()).toBe(1);
+
+      service.redo('count');
+      expect(service.getSignal('count')()).toBe(2);
+    });
+
+    it('keeps no more steps than the limit', () => {
+      service.set('count', 2);
+      service.set('count', 3);
+      service.set('count', 4);
+      service.undo('count');
+      service.undo('count');
+      service.undo('count');
+
+      expect(service.getSignal('count')()).toBe(2);
+    });
+
+    it('keeps the step of an undo that an interceptor rejected', () => {
+      service.set('count', 2);
+      service.set('count', 3);
+      const removeInterceptor = service.addWriteInterceptor(write => write.reject('locked'));
+      expect(() => service.undo('count')).toThrowError(StoreWriteRejectedError);
+      removeInterceptor();
+
+      service.undo('count');
+      expect(service.getSignal('count')()).toBe(2);
+    });
+
+    it('discards the history when the key is removed', () => {
+      service.set('count', 2);
+      service.remove('count');
+      service.set('count', 5);
+
+      expect(canUndo('count')).toBeFalse();
+    });
+  });
+
+  describe('signals', () => {
+    it('falls back to the initial value and honours a custom equality', () => {
+      const signal = service.getSignal<{ id: number; label: string }>('item', {
+        initialValue: { id: 0, label: 'none' },
+        equal: (a, b) => a?.id === b?.id
+      });
+      expect(signal().label).toBe('none');
+
+      service.set('item', { id: 1, label: 'first' });
+      expect(signal().label).toBe('first');
+      service.set('item', { id: 1, label: 'renamed' });
+      expect(signal().label).toBe('first');
+    });
+  });
+});
+
+// Runs against the browser's localStorage; seeding it before start() simulates a reload
+describe('NgrxStoreWrapperService persistence', () => {
+  let service: NgrxStoreWrapperService;
+
+  function start(): NgrxStoreWrapperService {
+    service = TestBed.inject(NgrxStoreWrapperService);
+    service.initializeStore(TestBed.inject(Store), TestBed.inject(ReducerManager));
+    return service;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [provideStore(), provideHttpClient()] });
+  });
+
+  afterEach(() => localStorage.clear());
+
+  describe('versioning', () => {
+    it('holds a versioned value of a string key back until enablePersistence() migrates it', async () => {
+      localStorage.setItem(META_KEY, JSON.stringify({ prefs: { version: 1 } }));
+      localStorage.setItem('prefs', JSON.stringify('dark'));
+      start();
+      await service.whenRestored();
+      expect(service.getSignal('prefs')()).toBeUndefined();
+
+      service.enablePersistence('prefs', StorageType.Local, { version: 2, migrate: theme => ({ theme }) });
+      await service.whenRestored();
+      expect(service.getSignal('prefs')()).toEqual({ theme: 'dark' });
+    });
+
+    it('discards a stored value newer than the declared version', async () => {
+      localStorage.setItem(META_KEY, JSON.stringify({ prefs: { version: 3 } }));
+      localStorage.setItem('prefs', JSON.stringify({ theme: 'dark', contrast: 'high' }));
+      spyOn(console, 'warn');
+      start();
+      service.enablePersistence('prefs', StorageType.Local, { version: 2 });
+      await service.whenRestored();
+
+      expect(service.getSignal('prefs')()).toBeUndefined();
+      expect(localStorage.getItem('prefs')).toBeNull();
+    });
+  });
+
+  describe('max age', () => {
+    it('stores the expiry of a restored key once enablePersistence() adds a max age', async () => {
+      localStorage.setItem(META_KEY, JSON.stringify({ lookups: true }));
+      localStorage.setItem('lookups', JSON.stringify(['a']));
+      start();
+      await service.whenRestored();
+      service.enablePersistence('lookups', StorageType.Local, { maxAgeMs: 60000 });
+
+      expect(JSON.parse(localStorage.getItem(META_KEY)!).lookups).toEqual({ expires: true });
+      expect(localStorage.getItem('lookups')).toMatch(/^exp:\d+:\["a"\]$/);
+    });
+  });
+
+  describe('transforms', () => {
+    it('keeps a stored value that a transform cannot read yet', async () => {
+      localStorage.setItem(META_KEY, JSON.stringify({ token: { encoded: true } }));
+      localStorage.setItem('token', 'sealed');
+      spyOn(console, 'warn');
+      start();
+      service.enablePersistence('token', StorageType.Local, {
+        transforms: [{
+          write: data => data,
+          read: () => { throw new PersistenceTransformUnavailableError('locked'); }
+        }]
+      });
+      await service.whenRestored();
+
+      expect(service.getSignal('token')()).toBeUndefined();
+      expect(localStorage.getItem('token')).toBe('sealed');
+    });
+  });
+
+  describe('cross-tab sync', () => {
+    const otherTabWrites = (key: string, newValue: string | null) =>
+      window.dispatchEvent(new StorageEvent('storage', { key, newValue, storageArea: localStorage }));
+
+    it('starts syncing a string key restored at startup once enablePersistence() asks for it', async () => {
+      localStorage.setItem(META_KEY, JSON.stringify({ cart: true }));
+      localStorage.setItem('cart', JSON.stringify([1]));
+      start();
+      await service.whenRestored();
+      service.enablePersistence('cart', StorageType.Local, { sync: true });
+
+      otherTabWrites('cart', JSON.stringify([1, 2]));
+      expect(service.getSignal('cart')()).toEqual([1, 2]);
+    });
+
+    it('applies a value from another tab that carries an expiry this tab does not know about', () => {
+      start();
+      service.set('cart', [1]);
+      service.enablePersistence('cart', StorageType.Local, { sync: true });
+
+      otherTabWrites('cart', `exp:${Date.now() + 60000}:${JSON.stringify([1, 2])}`);
+      expect(service.getSignal('cart')()).toEqual([1, 2]);
+    });
+
+    it('keeps the value when another tab stops persisting the key', () => {
+      start();
+      service.set('cart', [1]);
+      service.enablePersistence('cart', StorageType.Local, { sync: true });
+
+      otherTabWrites('cart', null);
+      expect(service.getSignal('cart')()).toEqual([1]);
+    });
+  });
+});
+
+describe('NgrxStoreWrapperService server rendering', () => {
+  let service: NgrxStoreWrapperService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), { provide: PLATFORM_ID, useValue: 'server' }]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+    service.initializeStore(TestBed.inject(Store), TestBed.inject(ReducerManager));
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('neither restores nor persists keys', async () => {
+    localStorage.setItem(META_KEY, JSON.stringify({ theme: true }));
+    localStorage.setItem('theme', JSON.stringify('dark'));
+    service.set('prefs', { theme: 'light' });
+    service.enablePersistence('prefs', StorageType.Local);
+    await service.whenRestored();
+
+    expect(service.getSignal('theme')()).toBeUndefined();
+    expect(localStorage.getItem('prefs')).toBeNull();
+  });
+
+  it('hands an effect result to the client through TransferState', () => {
+    service.addEffect({ key: 'rates', serviceFn: () => of([1]), context: {}, transferState: true });
+
+    expect(TestBed.inject(TransferState).get(ratesStateKey, null)).toEqual([1]);
+  });
+});
+
+describe('NgrxStoreWrapperService hydration', () => {
+  let service: NgrxStoreWrapperService;
+  let calls: number;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideStoreWrapperTesting()]
+    });
+    TestBed.inject(TransferState).set(ratesStateKey, [1]);
+    service = TestBed.inject(NgrxStoreWrapperService);
+    calls = 0;
+  });
+
+  const fetchRates = (currency = 'eur') => {
+    calls++;
+    return of([currency]);
+  };
+
+  it('writes the transferred value instead of running the first execution', () => {
+    service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, transferState: true });
+    expect(service.getSignal('rates')()).toEqual([1]);
+    expect(calls).toBe(0);
+
+    service.recallEffect('rates');
+    expect(calls).toBe(1);
+    expect(service.getSignal('rates')()).toEqual(['eur']);
+  });
+
+  it('runs an effect with deps only once they change after hydration', fakeAsync(() => {
+    service.set('currency', 'eur');
+    service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, deps: ['currency'], transferState: true });
+    tick();
+    expect(service.getSignal('rates')()).toEqual([1]);
+    expect(calls).toBe(0);
+
+    service.set('currency', 'usd');
+    tick();
+    expect(calls).toBe(1);
+    expect(service.getSignal('rates')()).toEqual(['usd']);
+  }));
+
+  it('hydrates only the first registration', () => {
+    service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, transferState: true });
+    service.addEffect({ key: 'rates', serviceFn: fetchRates, context: {}, transferState: true });
+
+    expect(calls).toBe(1);
+  });
 });
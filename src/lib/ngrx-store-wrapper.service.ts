@@ -8,29 +8,322 @@ import {
   ReducerManager,
   createSelector,
   select,
-  Selector
+  props,
+  Selector,
+  Action
 } from '@ngrx/store';
-import { Observable, interval, Subscription, of, throwError } from 'rxjs';
-import { take, catchError, startWith, distinctUntilChanged, debounceTime, filter, map, timeout } from 'rxjs/operators';
+import {
+  Observable,
+  interval,
+  Subscription,
+  Subject,
+  BehaviorSubject,
+  AsyncSubject,
+  EMPTY,
+  defer,
+  identity,
+  throwError,
+  timer,
+  RetryConfig,
+  OperatorFunction
+} from 'rxjs';
+import {
+  take,
+  catchError,
+  startWith,
+  finalize,
+  share,
+  distinctUntilChanged,
+  debounceTime,
+  filter,
+  map,
+  timeout,
+  retry,
+  skip,
+  tap,
+  switchMap,
+  mergeMap,
+  exhaustMap,
+  concatMap
+} from 'rxjs/operators';
 import {
   isDevMode,
   Injectable,
   inject,
   DestroyRef,
   Injector,
-  Type
+  Type,
+  Signal,
+  ValueEqualityFn,
+  computed,
+  PLATFORM_ID,
+  TransferState,
+  makeStateKey
 } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { StorageType } from './storage-type.enum';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { isPlatformServer } from '@angular/common';
+import {
+  EffectStatus,
+  EffectStatusState,
+  IDLE_EFFECT_STATUS,
+  effectFailed,
+  effectStarted,
+  effectStatusCleared,
+  effectSucceeded,
+  effectStatusReducer
+} from './effect-status';
+import { HistoryOptions, KeyHistory } from './key-history';
+import { StoreScope } from './store-scope';
+import { NGRX_STORE_WRAPPER_CONFIG, resolveStoreWrapperSettings } from './store-wrapper-config';
+import { StoreWrapperEvent, StoreWrapperEventInit, StoreWrapperLogLevel, consoleLogger } from './store-events';
+import { KeyValidator, StoreWriteRejectedError, WriteInterceptor, isStandardSchema, runValidator } from './write-validation';
+import { Mutation, MutationOptions } from './mutation';
+import { EntityChange, EntityId, EntityKey, EntityUpdate, applyEntityChange, isEntityKey } from './entity-key';
+import { STORE_WRAPPER_TESTING_HOOKS } from './testing-hooks';
+import {
+  ACTION_TYPE_FORMAT,
+  EffectTrigger,
+  WriteKind,
+  WriteMeta,
+  WriteSource,
+  defaultActionTypeFormat
+} from './write-meta';
+import {
+  StoreKey,
+  StoreKeyRef,
+  StoreKeyValues,
+  getDeclaredStoreKey,
+  isStoreKey,
+  resolveKey
+} from './store-key';
+import {
+  PersistedKeysMeta,
+  PersistenceOptions,
+  PERSISTENCE_DEFAULTS,
+  ExpiryAction,
+  PersistenceCodec,
+  PersistenceTransformUnavailableError,
+  getStoredVersion,
+  hasOwnCodec,
+  isEncodedPersistedKey,
+  isExpiringPersistedKey,
+  unwrapExpiry,
+  wrapExpiry,
+  migratePersistedValue,
+  runTransforms
+} from './persistence-options';
+import {
+  MemoryStorageAdapter,
+  StorageAdapter,
+  StorageTarget,
+  WebStorageAdapter,
+  isPromiseLike,
+  isQuotaExceededError,
+  whenResolved
+} from './storage-adapter';
 
 export interface StoreState {
   [key: string]: any;
 }
 
-const DYNAMIC_KEY_WARN_THRESHOLD = 100;
-const LOCAL_KEY_META = '__ngrx_wrapper_persisted_keys__';
-const SESSION_KEY_META = '__ngrx_wrapper_persisted_keys__';
+export interface KeyDescription {
+  key: string;
+  // Storage the key is persisted to, if any
+  persistedIn?: StorageTarget;
+  hasEffect: boolean;
+  pollingIntervalMs?: number;
+  // Time of the last write, in ms since epoch
+  lastWriteAt?: number;
+  lastWriteSource?: WriteSource;
+}
+
+export interface SetOptions {
+  // The key expires this long after its last write; later writes restart the timer
+  ttlMs?: number;
+  onExpire?: ExpiryAction;
+}
+
+interface KeyTtl {
+  ttlMs: number;
+  onExpire?: ExpiryAction;
+  initial?: any;
+}
+
+export interface SignalOptions<T> {
+  initialValue?: T;
+  // Also called with undefined while the key has no value yet
+  equal?: ValueEqualityFn<T | undefined>;
+}
+
+// How a new execution treats one that is still in flight:
+// switch cancels it, merge runs both, exhaust ignores the new one, concat queues it.
+export type EffectConcurrency = 'switch' | 'merge' | 'exhaust' | 'concat';
+
+export interface EffectRetryOptions {
+  count: number;
+  // Delay before each retry: a base delay in ms doubled on every attempt, or a function of the attempt (1-based)
+  backoff?: number | ((attempt: number, error: any) => number);
+}
+
+export type EntityListWrite = 'setAll' | 'upsertMany';
+
+interface EffectExecutionBaseOptions<R> {
+  key: StoreKeyRef<R>;
+  intervalMs?: number;
+  immediate?: boolean;
+  retry?: number | EffectRetryOptions;
+  timeoutMs?: number;
+  concurrency?: EffectConcurrency;
+  // Hands the value fetched during SSR to the client, which then skips the first execution
+  transferState?: boolean;
+  // How a list result is written to an entity key: replace the collection (default) or merge into it
+  entityWrite?: EntityListWrite;
+  // How long a result counts as fresh; fresh results are reused instead of refetched (default 0)
+  staleTime?: number;
+  // How long results are kept per request, shown again while a refetch for the same request runs (default 5 min)
+  cacheTime?: number;
+}
+
+export type EffectExecutionOptions<T = any, R = T> = EffectExecutionBaseOptions<R> & (
+  | { transform?: undefined }
+  | { transform: (result: T) => R }
+);
+
+interface EffectSourceOptions {
+  context?: any;
+  args?: any;
+  // Store keys (or a selector) the args are derived from; the effect re-runs whenever they change
+  deps?: StoreKeyRef[] | Selector<StoreState, any>;
+  // Maps the dependency values to args. Defaults to the values themselves (spread for key lists).
+  mapDeps?: (values: any) => any;
+  depsDebounceMs?: number;
+}
+
+// Without `transform` the serviceFn result is written as is, so it must have the key's type
+export type EffectOptions<T = any, R = T> = EffectExecutionBaseOptions<R> & EffectSourceOptions & (
+  | { serviceFn: (...args: any[]) => Observable<R>; transform?: undefined }
+  | { serviceFn: (...args: any[]) => Observable<T>; transform: (result: T) => R }
+);
+
+export type HttpEffectOptions<T = any, R = T> = EffectExecutionOptions<T, R> & {
+  url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: any;
+  headers?: Record<string, string>;
+};
+
+interface EffectConfig {
+  intervalMs?: number;
+  immediate?: boolean;
+  transform?: (result: any) => any;
+  retry?: number | EffectRetryOptions;
+  timeoutMs?: number;
+  concurrency: EffectConcurrency;
+  transferState?: boolean;
+  entityKey?: EntityKey<any>;
+  entityWrite?: EntityListWrite;
+  staleTime: number;
+  cacheTime: number;
+  // Identifies the request an execution makes (args, url...), for caching and deduplication
+  identify: () => unknown;
+  // Builds the source observable for one execution
+  run: () => Observable<any>;
+  args?: any;
+  trigger$: Subject<EffectTrigger>;
+}
+
+const CONCURRENCY_OPERATORS: Record<EffectConcurrency, (
+  project: (trigger: EffectTrigger) => Observable<unknown>
+) => OperatorFunction<EffectTrigger, unknown>> = {
+  switch: project => switchMap(project),
+  merge: project => mergeMap(project),
+  exhaust: project => exhaustMap(project),
+  concat: project => concatMap(project)
+};
+
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+interface CachedResult {
+  value: any;
+  // Store value right after the result was written, to tell whether it is still displayed
+  state: any;
+  at: number;
+  stale: boolean;
+}
+
+interface SyncMessage {
+  key: string;
+  type: StorageTarget;
+  value: string;
+}
+
+const DYNAMIC_ACTION_KINDS: readonly WriteKind[] = ['set', 'update', 'patch', 'setIn', 'entity'];
+
+export type StorePath = ReadonlyArray<string | number>;
+
+interface BatchedWrite {
+  key: string;
+  kind: WriteKind;
+  payload: any;
+  meta: WriteMeta;
+}
+
+interface PendingWrite extends BatchedWrite {
+  keyRef: StoreKeyRef;
+  // Registered once the write is committed, so a rejected or rolled back write leaves no TTL behind
+  ttl?: Omit<KeyTtl, 'initial'>;
+}
+
+// Applies several dynamic key writes in a single dispatch; every dynamic reducer picks its own entries
+const batchWrite = createAction('[ngrx-store-wrapper] Batch Write', props<{ writes: BatchedWrite[] }>());
+
+function applyWrite(state: any, kind: WriteKind, payload: any): any {
+  switch (kind) {
+    case 'set':
+    case 'update':
+      return state === payload ? state : payload;
+    case 'patch':
+      return { ...(state ?? {}), ...payload };
+    case 'setIn':
+      return setAtPath(state, payload.path, payload.value);
+    case 'entity':
+      return applyEntityChange(state, payload);
+  }
+}
+
+// Immutably writes `value` at `path`, creating objects (or arrays for numeric segments) on the way.
+function setAtPath(target: any, path: StorePath, value: any): any {
+  if (path.length === 0) return value;
+  const [head, ...rest] = path;
+  const current = target !== null && typeof target === 'object' ? target : undefined;
+  const child = setAtPath(current?.[head], rest, value);
+  if (current && current[head] === child) return current;
+
+  if (Array.isArray(current)) {
+    const copy = [...current];
+    copy[head as number] = child;
+    return copy;
+  }
+  if (!current && typeof head === 'number') {
+    const created: any[] = [];
+    created[head] = child;
+    return created;
+  }
+  return { ...(current ?? {}), [head]: child };
+}
+
+function toRetryConfig(options: number | EffectRetryOptions): RetryConfig {
+  const { count, backoff } = typeof options === 'number' ? { count: options, backoff: undefined } : options;
+  if (backoff === undefined) return { count };
+  return {
+    count,
+    delay: (error, attempt) => timer(
+      typeof backoff === 'function' ? backoff(attempt, error) : backoff * 2 ** (attempt - 1)
+    )
+  };
+}
 
 const autoBindMetadata = new WeakMap<Function, Type<any>>();
 
@@ -57,10 +350,6 @@ export function AutoBind(): MethodDecorator {
         value: true,
         enumerable: false,
         configurable: false
-      },
-      'name': {
-        value: `bound ${originalMethod.name}`,
-        configurable: true
       }
     });
 
@@ -71,24 +360,63 @@ export function AutoBind(): MethodDecorator {
 
 @Injectable({ providedIn: 'root' })
 export class NgrxStoreWrapperService {
+  private readonly config = inject(NGRX_STORE_WRAPPER_CONFIG, { optional: true });
+  private readonly settings = resolveStoreWrapperSettings(this.config);
+  private writeInterceptors: WriteInterceptor[] = [...(this.config?.writeInterceptors ?? [])];
+  private validators = new Map<string, KeyValidator>();
+  private readonly logger = this.config?.logger ?? consoleLogger;
+  private readonly eventsSubject = new Subject<StoreWrapperEvent>();
+  // Lifecycle of keys, effects and persistence; the configured logger receives the same events
+  public readonly events$: Observable<StoreWrapperEvent> = this.eventsSubject.asObservable();
   private reducerManager!: ReducerManager;
   private store!: Store<StoreState>;
   private staticReducerKeys: Set<string> = new Set();
+  private computedKeys: Set<string> = new Set();
+  private histories = new Map<string, KeyHistory>();
+  private historyChanged$ = new BehaviorSubject<void>(undefined);
 
   private dynamicReducers: ActionReducerMap<StoreState> = {};
-  private dynamicActions: Record<string, any> = {};
+  // Action creators per key and write kind
+  private dynamicActions: Record<string, Record<WriteKind, any>> = {};
   private selectors: Record<string, any> = {};
-  private persistedKeys: Map<string, StorageType> = new Map();
+  private persistedKeys: Map<string, StorageTarget> = new Map();
+  private storageAdapters: Map<StorageTarget, StorageAdapter> = new Map<StorageTarget, StorageAdapter>([
+    [StorageType.Local, new WebStorageAdapter(() => localStorage)],
+    [StorageType.Session, new WebStorageAdapter(() => sessionStorage)],
+    [StorageType.Memory, new MemoryStorageAdapter()]
+    // StorageType.IndexedDb is opt-in so apps that don't use it never open a database
+  ]);
+  private adapterRestorations = new Map<StorageTarget, Promise<void>>();
+  private keyRestorations = new Map<string, Promise<void>>();
+  private metaWrites = new Map<StorageTarget, Promise<void>>();
+  private persistenceOptions = new Map<string, PersistenceOptions>();
+  private persistedVersions = new Map<string, number>();
+  private persistenceDefaults: PersistenceCodec = inject(PERSISTENCE_DEFAULTS, { optional: true }) ?? {};
+  // Restored values whose codec or version is only known once enablePersistence() is called
+  private undecodedValues = new Map<string, { type: StorageTarget; value: string; version: number; expiresAt?: number }>();
+  private latestPersistWrites = new Map<string, number>();
+  private keyTtls = new Map<string, KeyTtl>();
+  private expiries = new Map<string, { expiresAt: number; timer: ReturnType<typeof setTimeout> }>();
+  private persistWriteCount = 0;
+  private syncedKeys = new Map<string, StorageTarget>();
+  private remoteWrites = new Map<string, string>();
+  private storageEventListener?: (event: StorageEvent) => void;
+  private syncChannel?: BroadcastChannel;
   private pollingSubscriptions: Record<string, Subscription> = {};
   private persistenceSubscriptions: Map<string, Subscription> = new Map();
-  private effectConfigs: Record<string, {
-    intervalMs?: number;
-    immediate?: boolean;
-    transform?: (result: any) => any;
-    originalServiceFn: (...args: any[]) => Observable<any>;
-    context?: any;
-    args?: any;
-  }> = {};
+  private effectConfigs: Record<string, EffectConfig> = {};
+  private effectSubscriptions: Record<string, Subscription> = {};
+  private queryCache = new Map<string, Map<string, CachedResult>>();
+  private inFlightRequests = new Map<string, Observable<any>>();
+  private subscriberCounts = new Map<string, number>();
+
+  private transactionWrites?: PendingWrite[];
+  private transactionCreatedKeys?: Set<string>;  // Keys the running transaction created a reducer for
+  private actionTypeFormat = inject(ACTION_TYPE_FORMAT, { optional: true }) ?? defaultActionTypeFormat;
+  private lastWrites = new Map<string, { at: number; source: WriteSource }>();
+  private testingHooks = inject(STORE_WRAPPER_TESTING_HOOKS, { optional: true });
+  private isServer = isPlatformServer(inject(PLATFORM_ID));
+  private transferState = inject(TransferState);
 
   private pendingKeys = new Set<string>();  // Keys being set
   private readyKeys = new Set<string>();    // Keys fully ready
@@ -104,12 +432,42 @@ export class NgrxStoreWrapperService {
     Object.values(this.pollingSubscriptions).forEach(sub => sub.unsubscribe());
     this.pollingSubscriptions = {};
 
+    // Cancel all running effects
+    Object.values(this.effectSubscriptions).forEach(sub => sub.unsubscribe());
+    this.effectSubscriptions = {};
+
     // Clean up all persistence subscriptions
     this.persistenceSubscriptions.forEach(sub => sub.unsubscribe());
     this.persistenceSubscriptions.clear();
+
+    // Stop listening to other tabs
+    if (this.storageEventListener) {
+      window.removeEventListener('storage', this.storageEventListener);
+      this.storageEventListener = undefined;
+    }
+    this.syncChannel?.close();
+    this.syncChannel = undefined;
+  }
+
+  private emit(init: StoreWrapperEventInit): void {
+    const event = { ...init, at: Date.now() } as StoreWrapperEvent;
+    // Events are emitted from inside writes and effects, which a failing logger must not break
+    try {
+      this.logger(event);
+    } catch (e) {
+      console.error('[ngrx-store-wrapper] Logger failed:', e);
+    }
+    this.eventsSubject.next(event);
+  }
+
+  // `key` is the key the message is about, if any
+  private log(level: StoreWrapperLogLevel, key: string | undefined, message: string, ...details: unknown[]): void {
+    this.emit({ type: 'log', ...(key === undefined ? {} : { key }), level, message, details });
   }
 
   public initializeStore(store: Store<StoreState>, reducerManager: ReducerManager): void {
+    // Already set up at bootstrap by provideNgrxStoreWrapper()
+    if (this.store === store) return;
     this.store = store;
     this.reducerManager = reducerManager;
 
@@ -121,77 +479,521 @@ export class NgrxStoreWrapperService {
     this.store.pipe(select(selectWholeState), take(1)).subscribe((state) => {
       Object.keys(state).forEach((key) => this.staticReducerKeys.add(key));
     });
-    this.loadPersistedKeys();
     this.restorePersistedState();
   }
 
-  public set(key: string, value: any): void {
-    this.pendingKeys.add(key);
+  // Every later write to the key must pass `validator`; a rejected write throws StoreWriteRejectedError
+  public registerSchema<T = any>(keyRef: StoreKeyRef<T>, validator: KeyValidator<T>): void {
+    if (typeof validator !== 'function' && !isStandardSchema(validator)) {
+      throw new Error('[ngrx-store-wrapper] registerSchema() requires a predicate or a Standard Schema');
+    }
+    this.validators.set(resolveKey(keyRef), validator);
+  }
+
+  public unregisterSchema(keyRef: StoreKeyRef): void {
+    this.validators.delete(resolveKey(keyRef));
+  }
+
+  // Interceptors run in registration order on every write, before the key's schema. Returns a function removing it.
+  public addWriteInterceptor(interceptor: WriteInterceptor): () => void {
+    this.writeInterceptors.push(interceptor);
+    return () => {
+      this.writeInterceptors = this.writeInterceptors.filter(registered => registered !== interceptor);
+    };
+  }
+
+  // Snapshot of every dynamic key and what is attached to it, for debugging and dev tooling
+  public describeKeys(): KeyDescription[] {
+    return Object.keys(this.dynamicReducers).map(key => {
+      const lastWrite = this.lastWrites.get(key);
+      return {
+        key,
+        persistedIn: this.persistedKeys.get(key),
+        hasEffect: !!this.effectConfigs[key],
+        pollingIntervalMs: this.pollingSubscriptions[key] ? this.effectConfigs[key]?.intervalMs : undefined,
+        lastWriteAt: lastWrite?.at,
+        lastWriteSource: lastWrite?.source
+      };
+    });
+  }
+
+  public set<T = any>(keyRef: StoreKeyRef<T>, value: T, options?: SetOptions): void {
+    const ttlMs = options?.ttlMs;
+    if (ttlMs !== undefined && (typeof ttlMs !== 'number' || !(ttlMs > 0))) {
+      throw new Error(`[ngrx-store-wrapper] ttlMs must be a positive number, got ${ttlMs}`);
+    }
+    this.write(keyRef, 'set', value, { source: 'manual' }, ttlMs === undefined ? undefined : { ttlMs, onExpire: options?.onExpire });
+  }
+
+  public update<T = any>(keyRef: StoreKeyRef<T>, updater: (current: T) => T): void {
+    if (typeof updater !== 'function') {
+      throw new Error('[ngrx-store-wrapper] update() requires an updater function');
+    }
+    this.write(keyRef, 'update', updater);
+  }
+
+  public patch<T = any>(keyRef: StoreKeyRef<T>, partial: Partial<T>): void {
+    if (partial === null || typeof partial !== 'object' || Array.isArray(partial)) {
+      throw new Error('[ngrx-store-wrapper] patch() requires a plain object');
+    }
+    this.write(keyRef, 'patch', partial);
+  }
+
+  public setIn<T = any>(keyRef: StoreKeyRef<T>, path: StorePath, value: any): void {
+    if (!Array.isArray(path) || path.length === 0) {
+      throw new Error('[ngrx-store-wrapper] setIn() requires a non-empty path array');
+    }
+    this.write(keyRef, 'setIn', { path: [...path], value });
+  }
+
+  public setMany(values: Record<string, any>): void {
+    if (values === null || typeof values !== 'object' || Array.isArray(values)) {
+      throw new Error('[ngrx-store-wrapper] setMany() requires an object of key/value pairs');
+    }
+    this.transaction(() => Object.entries(values).forEach(([key, value]) => this.set(key, value)));
+  }
+
+  public addOne<T>(keyRef: EntityKey<T>, entity: T): void {
+    this.assertEntityKey(keyRef, 'addOne');
+    this.write(keyRef, 'entity', { op: 'addOne', id: keyRef.selectId(entity), entity });
+  }
+
+  public upsertMany<T>(keyRef: EntityKey<T>, entities: T[]): void {
+    this.assertEntityKey(keyRef, 'upsertMany');
+    this.write(keyRef, 'entity', this.toEntityList(keyRef, 'upsertMany', entities));
+  }
+
+  public updateOne<T>(keyRef: EntityKey<T>, update: EntityUpdate<T>): void {
+    this.assertEntityKey(keyRef, 'updateOne');
+    this.write(keyRef, 'entity', { op: 'updateOne', id: update.id, changes: update.changes });
+  }
+
+  public removeOne<T>(keyRef: EntityKey<T>, id: EntityId): void {
+    this.assertEntityKey(keyRef, 'removeOne');
+    this.write(keyRef, 'entity', { op: 'removeOne', id });
+  }
+
+  public setAll<T>(keyRef: EntityKey<T>, entities: T[]): void {
+    this.assertEntityKey(keyRef, 'setAll');
+    this.write(keyRef, 'entity', this.toEntityList(keyRef, 'setAll', entities));
+  }
+
+  private assertEntityKey(keyRef: unknown, method: string): void {
+    if (!isEntityKey(keyRef)) {
+      throw new Error(`[ngrx-store-wrapper] ${method}() requires an entity key created with defineEntityKey()`);
+    }
+  }
+
+  private toEntityList(keyRef: EntityKey<any>, op: EntityListWrite, entities: any[]): EntityChange {
+    if (!Array.isArray(entities)) {
+      throw new Error(`[ngrx-store-wrapper] ${op}() for entity key "${keyRef.key}" requires an array`);
+    }
+    return { op, ids: entities.map(entity => keyRef.selectId(entity)), entities };
+  }
+
+  /**
+   * Runs `fn` and applies every write it makes in one dispatched action, so subscribers never
+   * see a partially updated state. Reads inside `fn` still return the values from before it.
+   * If `fn` throws, none of its writes are applied and keys it created are removed. Nested transactions join the outer one.
+   */
+  public transaction<R>(fn: () => R): R {
+    if (this.transactionWrites) {
+      return fn();
+    }
+
+    const writes: PendingWrite[] = this.transactionWrites = [];
+    const createdKeys = this.transactionCreatedKeys = new Set<string>();
+    let result: R;
+    try {
+      result = fn();
+    } catch (e) {
+      writes.forEach(({ key }) => this.pendingKeys.delete(key));
+      // Keys created for the discarded writes would otherwise stay registered with a null value
+      createdKeys.forEach(key => {
+        this.unregisterDynamicReducer(key);
+        this.emit({ type: 'removed', key });
+      });
+      throw e;
+    } finally {
+      this.transactionWrites = undefined;
+      this.transactionCreatedKeys = undefined;
+    }
+
+    if (isDevMode() && isPromiseLike(result)) {
+      this.log('warn', undefined, '[ngrx-store-wrapper] transaction() callbacks must be synchronous; writes after an await are not batched.');
+    }
+    if (writes.length > 0) {
+      this.commitWrites(writes);
+    }
+    return result;
+  }
+
+  private write(keyRef: StoreKeyRef, kind: WriteKind, payload: any, meta: WriteMeta = { source: 'manual' }, ttl?: Omit<KeyTtl, 'initial'>): void {
+    // Interceptors only see writes that will be applied, and a rejected write doesn't create its key
+    const key = this.checkWriteTarget(keyRef);
+    if (key === null) return;
+    if (kind === 'update') {
+      // Resolved before dispatch so the action stays serializable and replayable
+      payload = payload(this.pendingValue(key));
+    }
+    ({ kind, payload } = this.interceptWrite(key, kind, payload, meta));
+    this.prepareWrite(key);
+
+    const write: PendingWrite = { key, kind, payload, meta, keyRef, ttl };
+    if (this.transactionWrites) {
+      this.transactionWrites.push(write);
+      return;
+    }
+    this.commitWrites([write]);
+  }
+
+  /**
+   * Runs the write interceptors and the key's validator on the value the key will hold after the write.
+   * A write whose value an interceptor replaces is dispatched as a set; an update() keeps its kind.
+   */
+  private interceptWrite(key: string, kind: WriteKind, payload: any, meta: WriteMeta): { kind: WriteKind; payload: any } {
+    const validator = this.validators.get(key);
+    if (!validator && this.writeInterceptors.length === 0) {
+      return { kind, payload };
+    }
+
+    const previous = this.pendingValue(key);
+    const next = applyWrite(previous, kind, payload);
+    const reject = (reason: string): never => {
+      throw new StoreWriteRejectedError(key, meta.source, reason);
+    };
+    let value = next;
+    this.writeInterceptors.forEach(interceptor => {
+      const intercepted = interceptor({ key, kind, value, previous, meta, reject });
+      if (intercepted !== undefined) value = intercepted;
+    });
+    if (validator) {
+      const result = runValidator(validator, value);
+      if (result.issues) {
+        const reason = result.issues.map(issue => issue.message).join('; ');
+        throw new StoreWriteRejectedError(key, meta.source, reason, result.issues);
+      }
+    }
+    if (value === next) return { kind, payload };
+    return { kind: kind === 'update' ? kind : 'set', payload: value };
+  }
+
+  // Current value of the key, including writes still buffered in a transaction. New dynamic keys start at null.
+  private pendingValue(key: string): any {
+    const current = this.store && (this.selectors[key] || this.staticReducerKeys.has(key)) ? this.snapshot(key) : null;
+    return (this.transactionWrites ?? [])
+      .filter(write => write.key === key)
+      .reduce((value, write) => applyWrite(value, write.kind, write.payload), current);
+  }
+
+  // Validates the key. Returns null when the write must be ignored.
+  private checkWriteTarget(keyRef: StoreKeyRef): string | null {
+    const key = resolveKey(keyRef);
     if (!this.store) {
-      this.pendingKeys.delete(key);
       throw new Error('Store must be initialized before setting data');
     }
 
     if (typeof key !== 'string') {
-      this.pendingKeys.delete(key);
       throw new Error('Key must be a string');
     }
 
     if (key.includes('.')) {
-      console.warn(`[ngrx-store-wrapper] Dots in key names may cause issues: "${key}"`);
+      this.log('warn',
+        key,
+        `[ngrx-store-wrapper] Dots in key names may cause issues: "${key}". ` +
+        `Use setIn() to write nested values.`
+      );
     }
 
     if (this.staticReducerKeys.has(key)) {
-      this.pendingKeys.delete(key);
       if (isDevMode()) {
-        console.warn(`[ngrx-store-wrapper] Attempted to set static reducer key: "${key}"`);
+        this.log('warn', key, `[ngrx-store-wrapper] Attempted to set static reducer key: "${key}"`);
       }
-      return;
+      return null;
     }
-  
-    const actionKey = `set${key}`;
-  
-    if (!this.dynamicActions[actionKey]) {
-      this.dynamicActions[actionKey] = createAction(
-        `[${key}] Set`, 
-        (value: any) => ({ value })
-      );
-      this.dynamicReducers[key] = createReducer(
-        null, 
-        on(this.dynamicActions[actionKey], (state, { value }) => {
-          if (state === value) return state;
-          return value;
-        }
-      ));
-  
+
+    if (this.computedKeys.has(key)) {
+      if (isDevMode()) {
+        this.log('warn', key, `[ngrx-store-wrapper] Attempted to set computed key: "${key}"`);
+      }
+      return null;
+    }
+    return key;
+  }
+
+  // Marks the key as pending and registers its reducer if it is new
+  private prepareWrite(key: string): void {
+    this.pendingKeys.add(key);
+    if (!this.dynamicReducers[key]) {
       try {
-        this.reducerManager.addReducer(key, this.dynamicReducers[key]);
+        this.registerDynamicReducer(key);
+        this.transactionCreatedKeys?.add(key);
       } catch (e) {
         this.pendingKeys.delete(key);
         throw e;
       }
-      if (isDevMode() && Object.keys(this.dynamicReducers).length > DYNAMIC_KEY_WARN_THRESHOLD) {
-        console.warn(
-          `[ngrx-store-wrapper] More than ${DYNAMIC_KEY_WARN_THRESHOLD} dynamic store keys registered.`
+    }
+  }
+
+  private commitWrites(writes: PendingWrite[]): void {
+    // Last write source per key, in first-write order
+    const sources = new Map<string, WriteSource>();
+    writes.forEach(({ key, meta }) => sources.set(key, meta.source));
+    const previous = new Map<string, any>();
+    sources.forEach((_, key) => {
+      if (this.histories.has(key)) previous.set(key, this.snapshot(key));
+    });
+
+    const [first] = writes;
+    this.store.dispatch(writes.length === 1
+      ? this.dynamicActions[first.key][first.kind](first.payload, first.meta)
+      : batchWrite({ writes: writes.map(({ key, kind, payload, meta }) => ({ key, kind, payload, meta })) })
+    );
+    writes.forEach(({ keyRef, ttl }) => {
+      if (ttl) this.setTtl(keyRef, ttl);
+    });
+    const now = Date.now();
+    sources.forEach((source, key) => {
+      this.pendingKeys.delete(key);
+      this.readyKeys.add(key);
+      this.lastWrites.set(key, { at: now, source });
+      this.restartExpiry(key, source);
+    });
+
+    if (this.testingHooks) {
+      writes.forEach(({ key, kind }) => this.testingHooks!.written(key, kind, this.snapshot(key)));
+    }
+    writes.forEach(({ key, kind, meta }) => this.emit({ type: 'set', key, kind, source: meta.source }));
+
+    previous.forEach((value, key) => {
+      const history = this.histories.get(key);
+      if (history) {
+        this.recordHistory(key, history, value, sources.get(key)!);
+      }
+    });
+
+    writes.forEach(({ key, keyRef }) => {
+      if (isStoreKey(keyRef) && keyRef.persist && !this.persistedKeys.has(key)) {
+        this.enablePersistence(key, keyRef.persist, keyRef.persistOptions);
+      }
+    });
+  }
+
+  /**
+   * Creates a namespaced view of the store whose keys are prefixed with `<name>/`. Keys and
+   * effects created through it are removed when `destroyRef` (by default the current
+   * injection context's) is destroyed, or when `scope.destroy()` is called.
+   */
+  public createScope(name: string, destroyRef?: DestroyRef): StoreScope {
+    if (typeof name !== 'string' || !name) {
+      throw new Error('[ngrx-store-wrapper] createScope() requires a non-empty name');
+    }
+    const scope = new StoreScope(name, this);
+    try {
+      (destroyRef ?? inject(DestroyRef)).onDestroy(() => scope.destroy());
+    } catch {
+      if (isDevMode()) {
+        this.log('warn',
+          undefined,
+          `[ngrx-store-wrapper] Scope "${name}" was created outside an Angular injection context ` +
+          `and will not clean up automatically. Pass a DestroyRef or call destroy() yourself.`
         );
       }
-      this.selectors[key] = createSelector(
-        (state: any) => state[key],
-        val => val
+    }
+    return scope;
+  }
+
+  public enableHistory(keyRef: StoreKeyRef, options: HistoryOptions = {}): void {
+    const key = resolveKey(keyRef);
+    if (this.staticReducerKeys.has(key) || this.computedKeys.has(key)) {
+      throw new Error(`[ngrx-store-wrapper] History is only available for dynamic keys, not "${key}".`);
+    }
+    const { limit = 50, trackExternalWrites = false } = options;
+    if (!(limit > 0)) {
+      throw new Error(`[ngrx-store-wrapper] History limit for "${key}" must be a positive number.`);
+    }
+    this.histories.set(key, new KeyHistory({ limit, trackExternalWrites }));
+    this.historyChanged$.next();
+  }
+
+  public disableHistory(keyRef: StoreKeyRef): void {
+    if (this.histories.delete(resolveKey(keyRef))) {
+      this.historyChanged$.next();
+    }
+  }
+
+  public undo(keyRef: StoreKeyRef): void {
+    this.travel(resolveKey(keyRef), 'undo');
+  }
+
+  public redo(keyRef: StoreKeyRef): void {
+    this.travel(resolveKey(keyRef), 'redo');
+  }
+
+  public canUndo$(keyRef: StoreKeyRef): Observable<boolean> {
+    const key = resolveKey(keyRef);
+    return this.historyChanged$.pipe(map(() => !!this.histories.get(key)?.canUndo), distinctUntilChanged());
+  }
+
+  public canRedo$(keyRef: StoreKeyRef): Observable<boolean> {
+    const key = resolveKey(keyRef);
+    return this.historyChanged$.pipe(map(() => !!this.histories.get(key)?.canRedo), distinctUntilChanged());
+  }
+
+  public clearHistory(keyRef: StoreKeyRef): void {
+    this.histories.get(resolveKey(keyRef))?.clear();
+    this.historyChanged$.next();
+  }
+
+  private travel(key: string, direction: 'undo' | 'redo'): void {
+    const history = this.histories.get(key);
+    if (!history) {
+      if (isDevMode()) {
+        this.log('warn', key, `[ngrx-store-wrapper] Cannot ${direction}: history is not enabled for key "${key}".`);
+      }
+      return;
+    }
+
+    const current = this.snapshot(key);
+    const step = direction === 'undo' ? history.peekUndo() : history.peekRedo();
+    if (!step) return;
+    // The stacks only move once the write is accepted; a rejected write keeps the step
+    this.write(key, 'set', step.value, { source: 'history' });
+    if (direction === 'undo') history.undo(current);
+    else history.redo(current);
+    this.historyChanged$.next();
+  }
+
+  // Writes made through the wrapper's own API are undoable steps. Writes from effects,
+  // restores and other tabs replace the data being edited, so by default they start a
+  // new baseline instead of being recorded.
+  private recordHistory(key: string, history: KeyHistory, previous: any, source: WriteSource): void {
+    if (source === 'history' || this.snapshot(key) === previous) return;
+
+    if (source === 'manual' || history.options.trackExternalWrites) {
+      history.record(previous);
+    } else {
+      history.clear();
+    }
+    this.historyChanged$.next();
+  }
+
+  private snapshot(key: string): any {
+    let value: any;
+    this.store.pipe(
+      select(this.selectors[key] ?? ((state: StoreState) => state[key])),
+      take(1)
+    ).subscribe(current => value = current);
+    return value;
+  }
+
+  private registerDynamicReducer(key: string): void {
+    // Instances in child injectors share the store; addReducer() would silently replace the other's reducer
+    if (this.reducerManager.currentReducers[key]) {
+      throw new Error(
+        `[ngrx-store-wrapper] Key "${key}" already has a reducer in the NgRx store, e.g. from another wrapper instance.`
       );
-    } 
-    this.store.dispatch(this.dynamicActions[actionKey](value));
-    this.pendingKeys.delete(key);
+    }
+    const types = DYNAMIC_ACTION_KINDS.map(kind => this.actionTypeFormat(key, kind));
+    const takenTypes = new Set(
+      Object.values(this.dynamicActions).flatMap(actions => Object.values(actions).map(action => action.type))
+    );
+    if (new Set(types).size !== types.length || types.some(type => takenTypes.has(type))) {
+      throw new Error(`[ngrx-store-wrapper] The action type format produced duplicate action types for key "${key}".`);
+    }
+    const [setType, updateType, patchType, setInType, entityType] = types;
+
+    const set = createAction(setType, (value: any, meta: WriteMeta) => ({ value, meta }));
+    const update = createAction(updateType, (value: any, meta: WriteMeta) => ({ value, meta }));
+    const patch = createAction(patchType, (partial: Record<string, any>, meta: WriteMeta) => ({ partial, meta }));
+    const setIn = createAction(setInType, (change: { path: StorePath; value: any }, meta: WriteMeta) => ({ ...change, meta }));
+    const entity = createAction(entityType, (change: EntityChange, meta: WriteMeta) => ({ change, meta }));
+
+    this.dynamicActions[key] = { set, update, patch, setIn, entity };
+
+    this.dynamicReducers[key] = createReducer<any>(
+      null,
+      on(set, (state, { value }) => applyWrite(state, 'set', value)),
+      on(update, (state, { value }) => applyWrite(state, 'update', value)),
+      on(patch, (state, { partial }) => applyWrite(state, 'patch', partial)),
+      on(setIn, (state, { path, value }) => applyWrite(state, 'setIn', { path, value })),
+      on(entity, (state, { change }) => applyWrite(state, 'entity', change)),
+      on(batchWrite, (state, { writes }) => writes.reduce(
+        (current, write) => write.key === key ? applyWrite(current, write.kind, write.payload) : current,
+        state
+      ))
+    );
+
+    try {
+      this.reducerManager.addReducer(key, this.dynamicReducers[key]);
+    } catch (e) {
+      delete this.dynamicReducers[key];
+      delete this.dynamicActions[key];
+      throw e;
+    }
+    if (isDevMode() && Object.keys(this.dynamicReducers).length > this.settings.dynamicKeyWarnThreshold) {
+      this.log('warn',
+        undefined,
+        `[ngrx-store-wrapper] More than ${this.settings.dynamicKeyWarnThreshold} dynamic store keys registered.`
+      );
+    }
+    this.selectors[key] = createSelector(
+      (state: any) => state[key],
+      val => val
+    );
+    this.emit({ type: 'keyCreated', key });
+  }
+
+  private unregisterDynamicReducer(key: string): void {
+    this.reducerManager.removeReducer(key);
+    delete this.dynamicReducers[key];
+    delete this.dynamicActions[key];
+    delete this.selectors[key];
+  }
+
+  public defineComputed<R, D extends StoreKeyRef[]>(
+    keyRef: StoreKeyRef<R>,
+    deps: [...D],
+    projector: (...values: StoreKeyValues<D>) => R
+  ): void {
+    const key = resolveKey(keyRef);
+    if (!this.store) {
+      throw new Error('Store must be initialized before defining computed keys');
+    }
+    if (this.dynamicReducers[key] || this.staticReducerKeys.has(key) || this.computedKeys.has(key)) {
+      throw new Error(`[ngrx-store-wrapper] Cannot define computed key "${key}": the key already exists.`);
+    }
+    if (!Array.isArray(deps) || deps.length === 0) {
+      throw new Error(`[ngrx-store-wrapper] Computed key "${key}" needs at least one dependency key.`);
+    }
+
+    // Dependencies may be dynamic, static or other computed keys. They are looked up on every read,
+    // so a key defined later is picked up; until then it reads as undefined.
+    const inputs = deps.map(dep => {
+      const depKey = resolveKey(dep);
+      return (state: StoreState) => this.readKey(state, depKey);
+    });
+
+    this.selectors[key] = createSelector(inputs, projector as (...values: unknown[]) => R);
+    this.computedKeys.add(key);
     this.readyKeys.add(key);
   }
+
+  // Computed keys never live in the state, so they are read through their selector
+  private readKey(state: StoreState, key: string): any {
+    const selector = this.selectors[key];
+    return selector ? selector(state) : state[key];
+  }
+
   private warnedKeys = new Set<string>();
 
-  public get<T = any>(key: string): Observable<T>;
+  public get<T = any>(key: StoreKeyRef<T>): Observable<T>;
   public get<State, T>(selector: Selector<State, T>): Observable<T>;
-  public get<State, T>(identifier: string | Selector<State, T>): Observable<T> {
+  public get<State, T>(keyOrSelector: StoreKeyRef<T> | Selector<State, T>): Observable<T> {
     if (!this.store) {
       throw new Error('Store must be initialized before getting data');
     }
+    const identifier = typeof keyOrSelector === 'function' ? keyOrSelector : this.useKey(keyOrSelector);
     let selector;
     if(typeof identifier === 'string') {
       if (!this.pendingKeys.has(identifier) && !this.readyKeys.has(identifier)) {
@@ -200,7 +1002,7 @@ export class NgrxStoreWrapperService {
           filter(val => val !== undefined), // Wait until value exists
           take(1),
           timeout({
-            each: 5000,
+            each: this.settings.getTimeoutMs,
             with: () => throwError(() => 
               new Error(`Key "${identifier}" not found after waiting. Did you call set() first?`))
           }),
@@ -218,171 +1020,490 @@ export class NgrxStoreWrapperService {
       selector = this.selectors[identifier];
     }
     else selector = identifier;
-    const observable$ = this.store.pipe(select(selector));
+    let observable$ = this.store.pipe(select(selector));
+    if (typeof identifier === 'string') {
+      observable$ = this.countSubscribers(identifier, observable$);
+    }
+
+    return this.autoUnsubscribe(observable$, `get("${identifier}")`);
+  }
+
+  public getStatus(keyRef: StoreKeyRef): Observable<EffectStatus> {
+    if (!this.store) {
+      throw new Error('Store must be initialized before getting data');
+    }
+    const key = resolveKey(keyRef);
+    this.ensureEffectStatusReducer();
+    const status$ = this.store.pipe(
+      select(state => (state[this.settings.effectStatusKey] as EffectStatusState | undefined)?.[key] ?? IDLE_EFFECT_STATUS),
+      distinctUntilChanged()
+    );
+
+    return this.autoUnsubscribe(status$, `getStatus("${key}")`);
+  }
+
+  // Live get() subscriptions per key, so invalidate() only refetches data someone is looking at
+  private countSubscribers<T>(key: string, observable$: Observable<T>): Observable<T> {
+    return defer(() => {
+      this.subscriberCounts.set(key, (this.subscriberCounts.get(key) ?? 0) + 1);
+      return observable$.pipe(finalize(() => {
+        const count = (this.subscriberCounts.get(key) ?? 1) - 1;
+        if (count > 0) this.subscriberCounts.set(key, count);
+        else this.subscriberCounts.delete(key);
+      }));
+    });
+  }
 
+  private autoUnsubscribe<T>(observable$: Observable<T>, usage: string): Observable<T> {
     try {
       const destroyRef = inject(DestroyRef);
       return observable$.pipe(takeUntilDestroyed(destroyRef));
     } catch {
-      if (isDevMode() && !this.warnedKeys.has(identifier as string)) {
-        console.warn(
+      if (isDevMode() && !this.warnedKeys.has(usage)) {
+        this.log('warn',
+          undefined,
           `[ngrx-store-wrapper] Auto-unsubscribe only works in components/services. ` +
-            `You're using 'get("${identifier}")' outside an Angular injection context.`
+            `You're using '${usage}' outside an Angular injection context.`
         );
-        this.warnedKeys.add(identifier as string);  
+        this.warnedKeys.add(usage);  
       }
       return observable$;
     }
   }
 
-  public addEffect<T = any>(options: {
-    key: string;
-    serviceFn: (...args: any[]) => Observable<T>;
-    context?: any;
-    args?: any;
-    intervalMs?: number;
-    immediate?: boolean;
-    transform?: (result: T) => any;
-  }): void {
-    const {
-      key,
-      serviceFn,
-      context,
-      args,
-      intervalMs,
-      immediate = true,
-      transform
-    } = options;
-  
-    this.removeEffect(key);
-  
-    this.effectConfigs[key] = {
-      intervalMs,
-      immediate,
-      transform,
-      originalServiceFn: serviceFn,
-      context,
-      args
-    };
-  
-    if (immediate) {
-      this.executeEffect(key);
+  // Signals are derived from the store state with computed(), so they need no injection
+  // context, hold no subscription and can be created inside other computed() calls.
+  public getSignal<T = any>(keyRef: StoreKeyRef<T>, options: SignalOptions<T> & { initialValue: T }): Signal<T>;
+  public getSignal<T = any>(keyRef: StoreKeyRef<T>, options?: SignalOptions<T>): Signal<T | undefined>;
+  public getSignal<T = any>(keyRef: StoreKeyRef<T>, options: SignalOptions<T> = {}): Signal<T | undefined> {
+    if (!this.store) {
+      throw new Error('Store must be initialized before getting data');
     }
- 
-    if (intervalMs !== undefined) {
-      this.pollingSubscriptions[key] = interval(intervalMs)
-        .pipe(
-          startWith(immediate ? null : intervalMs)
-        )
-        .subscribe(() => this.executeEffect(key));
+    const key = resolveKey(keyRef);
+    // Keys that don't exist yet (or are still pending) read as the fallback until set() lands
+    const fallback = 'initialValue' in options
+      ? options.initialValue
+      : isStoreKey(keyRef) ? keyRef.initial : undefined;
+    const selector = this.selectors[key] ?? ((state: StoreState) => state[key]);
+    const value = this.store.selectSignal<T | undefined>(selector, { equal: options.equal });
+
+    return computed(() => {
+      const current = value();
+      return current === undefined ? fallback : current;
+    });
+  }
+
+  public select<State, T>(selector: Selector<State, T>, options: Omit<SignalOptions<T>, 'initialValue'> = {}): Signal<T> {
+    if (!this.store) {
+      throw new Error('Store must be initialized before getting data');
     }
+    return this.store.selectSignal(selector as unknown as Selector<StoreState, T>, options);
   }
 
-  private executeEffect(key: string): void {
-    const config = this.effectConfigs[key];
-    if (!config) return;
+  public addEffect<T = any, R = T>(options: EffectOptions<T, R>): void {
+    const { serviceFn, context } = options;
+    if (typeof serviceFn !== 'function') {
+      throw new Error('[ngrx-store-wrapper] serviceFn must be a function');
+    }
+    // Bound up front so a serviceFn that can't be bound throws from addEffect()
+    const boundFn = this.autoBind(serviceFn, context);
+    const key = this.useKey(options.key);
+    const hydrated = this.hydrateEffect(key, options);
+    const { deps } = options;
+    const immediate = (options.immediate ?? true) && !hydrated;
 
-    const boundFn = this.autoBind(config.originalServiceFn, config.context);
-    const result$ = (Array.isArray(config.args)
-      ? boundFn(...config.args)
-      : boundFn(config.args)
-    ).pipe(
-      catchError(error => {
-        console.error(`[ngrx-store-wrapper] Error in effect for key "${key}":`, error);
-        return of(null); // Continue stream with null
-      })
+    // With deps, the first run waits for the dependency values instead of running right away
+    this.registerEffect(key, { ...options, deferred: !!deps || hydrated }, config =>
+      Array.isArray(config.args)
+        ? boundFn(...config.args)
+        : boundFn(config.args),
+      config => config.args
     );
 
-    result$.subscribe({
-      next: result => {
-        if (result === null || result === undefined) return;
-        const finalValue = config.transform ? config.transform(result) : result;
-        this.set(key, finalValue);
-      },
-      error: err => {
-        console.error(`[ngrx-store-wrapper] Post-catch error for key "${key}":`, err);
-      }
+    if (deps) {
+      this.watchEffectDeps(key, options, immediate);
+    }
+  }
+
+  private watchEffectDeps(key: string, options: EffectOptions<any, any>, immediate: boolean): void {
+    const { deps, mapDeps, depsDebounceMs = 0 } = options;
+    const config = this.effectConfigs[key];
+
+    let deps$: Observable<any>;
+    if (typeof deps === 'function') {
+      deps$ = this.store.pipe(select(deps), distinctUntilChanged());
+    } else {
+      const depKeys = deps!.map(dep => resolveKey(dep));
+      deps$ = this.store.pipe(
+        select(state => depKeys.map(depKey => this.readKey(state, depKey))),
+        // Wait until every dependency key has a value
+        filter(values => values.every(value => value !== undefined)),
+        distinctUntilChanged((prev, next) => prev.every((value, i) => value === next[i]))
+      );
+    }
+
+    const subscription = deps$.pipe(
+      debounceTime(depsDebounceMs),
+      immediate ? identity : skip(1)
+    ).subscribe(values => {
+      config.args = mapDeps ? mapDeps(values) : values;
+      config.trigger$.next('deps');
     });
-}
 
-  public addHttpEffect<T = any>(options: {
-    key: string;
-    url: string;
-    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
-    body?: any;
-    headers?: Record<string, string>;
-    intervalMs?: number;
-    immediate?: boolean;
-    transform?: (result: T) => any;
-  }): void {
+    // Torn down together with the effect by removeEffect()/remove()
+    this.effectSubscriptions[key].add(subscription);
+  }
+
+  public addHttpEffect<T = any, R = T>(options: HttpEffectOptions<T, R>): void {
     const {
-      key,
       url,
       method = 'GET',
       body,
-      headers,
-      intervalMs,
-      immediate = true,
-      transform
+      headers
     } = options;
+    const key = this.useKey(options.key);
+    const hydrated = this.hydrateEffect(key, options);
 
-    this.removeEffect(key);
-
-    const httpFn = () =>
+    this.registerEffect(key, { ...options, deferred: hydrated }, () =>
       this.http.request(method, url, {
         body,
         headers: new HttpHeaders(headers || {})
-      }).pipe(
-        catchError(err => {
-          console.error(`[ngrx-store-wrapper] HTTP request failed for key "${key}"`, err);
-          return of(null);
-        })
-      );
+      }),
+      () => [method, url, body]
+    );
+  }
 
-    this.effectConfigs[key] = {
+  // Both addEffect() and addHttpEffect() run through this engine: executions are requested
+  // on the effect's trigger and flattened with its concurrency strategy, so removing the
+  // effect also cancels whatever is in flight.
+  private registerEffect(
+    key: string,
+    // deferred: the first run comes from the deps or was replaced by a hydrated value
+    options: EffectExecutionOptions<any, any> & { args?: any; deferred?: boolean },
+    run: (config: EffectConfig) => Observable<any>,
+    identify: (config: EffectConfig) => unknown
+  ): void {
+    const {
+      intervalMs,
+      immediate = true,
+      transform,
+      retry,
+      timeoutMs,
+      concurrency = 'switch',
+      transferState,
+      entityWrite,
+      staleTime = 0,
+      cacheTime = DEFAULT_CACHE_TIME
+    } = options;
+
+    if (!CONCURRENCY_OPERATORS[concurrency]) {
+      throw new Error(`[ngrx-store-wrapper] Unknown effect concurrency "${concurrency}" for key "${key}"`);
+    }
+
+    this.removeEffect(key);
+
+    const config: EffectConfig = {
       intervalMs,
       immediate,
       transform,
-      originalServiceFn: httpFn,
-      context: null,
-      args: undefined
+      retry,
+      timeoutMs,
+      concurrency,
+      transferState,
+      entityKey: isEntityKey(options.key) ? options.key : undefined,
+      entityWrite,
+      staleTime,
+      cacheTime,
+      identify: () => identify(config),
+      run: () => run(config),
+      args: options.args,
+      trigger$: new Subject<EffectTrigger>()
     };
+    this.effectConfigs[key] = config;
+
+    const flatten = CONCURRENCY_OPERATORS[concurrency];
+    this.effectSubscriptions[key] = config.trigger$
+      .pipe(flatten(trigger => this.executeEffect(key, config, trigger)))
+      .subscribe();
+
+    if (immediate && !options.deferred) {
+      config.trigger$.next('initial');
+    }
+
+    // Polling would keep a server render from ever becoming stable
+    if (intervalMs !== undefined && !this.isServer) {
+      const ticks$ = this.testingHooks?.pollTrigger(key, intervalMs) ?? interval(intervalMs);
+      // Polling starts with a tick unless the effect already ran, so immediate: false only delays non-polling effects
+      const startsWithTick = !immediate && !options.deferred;
+      this.pollingSubscriptions[key] = (startsWithTick ? ticks$.pipe(startWith(intervalMs)) : ticks$).subscribe(() => {
+        this.emit({ type: 'pollTick', key, intervalMs });
+        config.trigger$.next('poll');
+      });
+    }
+  }
 
-    const callApiAndDispatch = () => {
-      const config = this.effectConfigs[key];
-      if (!config) return;
-      
-      config.originalServiceFn()
-        .pipe(
-          take(1)
-        )
-        .subscribe({
+  private executeEffect(key: string, config: EffectConfig, trigger: EffectTrigger): Observable<unknown> {
+    let emitted = false;
+    let requestKey: string | undefined;
+    let startedAt = 0;
+    const succeeded = () => {
+      this.trackEffect(effectSucceeded({ key, timestamp: Date.now() }));
+      this.emit({ type: 'effectSucceeded', key, trigger, durationMs: Date.now() - startedAt });
+    };
+
+    return defer(() => {
+      startedAt = Date.now();
+      requestKey = this.requestKey(config);
+      const cached = requestKey === undefined ? undefined : this.getCachedResult(key, requestKey, config.cacheTime);
+      if (cached) {
+        // Stale-while-revalidate: show the cached result for this request while it is refetched
+        if (this.snapshot(key) !== cached.state) {
+          this.writeResult(key, cached.value, { source: 'effect', effectKey: key, trigger }, config);
+          cached.state = this.snapshot(key);
+        }
+        if (trigger !== 'invalidate' && !cached.stale && Date.now() - cached.at < config.staleTime) {
+          return EMPTY;
+        }
+      }
+
+      startedAt = Date.now();
+      this.trackEffect(effectStarted({ key }));
+      this.emit({ type: 'effectStarted', key, trigger });
+      return this.dedupeRequest(key, requestKey, () => defer(() => (this.testingHooks?.effectStub(key) ?? config.run)()).pipe(
+        config.timeoutMs !== undefined ? timeout(config.timeoutMs) : identity,
+        config.retry ? retry(toRetryConfig(config.retry)) : identity
+      )).pipe(
+        tap({
           next: result => {
-            const finalValue = config.transform ? config.transform(result) : result;
-            this.set(key, finalValue);
+            emitted = true;
+            if (result !== null && result !== undefined) {
+              const finalValue = config.transform ? config.transform(result) : result;
+              this.writeResult(key, finalValue, { source: 'effect', effectKey: key, trigger }, config);
+              if (requestKey !== undefined) {
+                this.cacheResult(key, requestKey, finalValue, config.cacheTime);
+              }
+              if (config.transferState && this.isServer) {
+                this.transferState.set(this.transferStateKey(key), finalValue);
+              }
+            }
+            succeeded();
           },
-          error: err => {
-            console.error(`[ngrx-store-wrapper] Error in HTTP effect for key "${key}":`, err);
+          complete: () => {
+            if (!emitted) succeeded();
           }
-        });
+        })
+      );
+    }).pipe(
+      // Outside defer(), so a failed write of a cached result is caught as well
+      catchError(error => {
+        this.log('error', key, `[ngrx-store-wrapper] Error in effect for key "${key}":`, error);
+        this.trackEffect(effectFailed({ key, error }));
+        this.emit({ type: 'effectFailed', key, trigger, durationMs: Date.now() - startedAt, error });
+        return EMPTY; // Keep the effect alive for the next trigger
+      })
+    );
+  }
+
+  // Serialized request identity; undefined when it can't be serialized, which disables caching and dedupe
+  private requestKey(config: EffectConfig): string | undefined {
+    try {
+      return JSON.stringify(config.identify()) ?? '';
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Executions of the same request share one in-flight source, also across re-registrations of the
+  // effect. The source is only cancelled if nothing re-joins it before the next macrotask.
+  private dedupeRequest(key: string, requestKey: string | undefined, request: () => Observable<any>): Observable<any> {
+    if (requestKey === undefined) return request();
+
+    const id = `${key}\u0000${requestKey}`;
+    let shared$ = this.inFlightRequests.get(id);
+    if (!shared$) {
+      const created$: Observable<any> = request().pipe(
+        finalize(() => {
+          if (this.inFlightRequests.get(id) === created$) this.inFlightRequests.delete(id);
+        }),
+        share({ resetOnRefCountZero: () => timer(0) })
+      );
+      this.inFlightRequests.set(id, created$);
+      shared$ = created$;
+    }
+    return shared$;
+  }
+
+  private getCachedResult(key: string, requestKey: string, cacheTime: number): CachedResult | undefined {
+    const entries = this.queryCache.get(key);
+    const cached = entries?.get(requestKey);
+    if (cached && Date.now() - cached.at > cacheTime) {
+      entries!.delete(requestKey);
+      return undefined;
+    }
+    return cached;
+  }
+
+  private cacheResult(key: string, requestKey: string, value: any, cacheTime: number): void {
+    const now = Date.now();
+    const entries = this.queryCache.get(key) ?? new Map<string, CachedResult>();
+    entries.forEach((entry, id) => {
+      if (now - entry.at > cacheTime) entries.delete(id);
+    });
+    if (cacheTime > 0) {
+      entries.set(requestKey, { value, state: this.snapshot(key), at: now, stale: false });
+    }
+    this.queryCache.set(key, entries);
+  }
+
+  /**
+   * Marks the key's cached effect results as stale. The effect refetches right away if the key
+   * has get() subscribers; otherwise on its next trigger.
+   */
+  public invalidate(keyRef: StoreKeyRef): void {
+    const key = resolveKey(keyRef);
+    if ((this.subscriberCounts.get(key) ?? 0) > 0) {
+      this.refetch(key);
+    } else {
+      this.markStale(key);
+    }
+  }
+
+  public invalidateMatching(prefix: string): void {
+    const keys = new Set([...Object.keys(this.effectConfigs), ...this.queryCache.keys()]);
+    keys.forEach(key => {
+      if (key.startsWith(prefix)) this.invalidate(key);
+    });
+  }
+
+  private markStale(key: string): void {
+    this.queryCache.get(key)?.forEach(entry => (entry.stale = true));
+  }
+
+  private refetch(key: string): void {
+    this.markStale(key);
+    this.effectConfigs[key]?.trigger$.next('invalidate');
+  }
+
+  public addMutation<I = any, R = any, T = any>(options: MutationOptions<I, R, T>): Mutation<I, R> {
+    const { serviceFn, context, http, optimistic, invalidates = [] } = options;
+    if (!serviceFn === !http) {
+      throw new Error('[ngrx-store-wrapper] addMutation() requires either serviceFn or http');
+    }
+    const key = this.useKey(options.key);
+    const boundFn = serviceFn && this.autoBind(serviceFn, context);
+    const request = (input: I): Observable<R> => boundFn
+      ? boundFn(input)
+      : this.http.request<R>(http!.method ?? 'POST', typeof http!.url === 'function' ? http!.url(input) : http!.url, {
+        body: http!.body ? http!.body(input) : input,
+        headers: new HttpHeaders(http!.headers || {})
+      });
+
+    const status$ = new BehaviorSubject<EffectStatus>(IDLE_EFFECT_STATUS);
+    const updateStatus = (changes: Partial<EffectStatus>) => status$.next({ ...status$.value, ...changes });
+    let pending = 0;
+
+    const mutate = (input: I): Observable<R> => {
+      const result$ = new AsyncSubject<R>();
+      pending++;
+      updateStatus({ loading: true, callCount: status$.value.callCount + 1 });
+
+      let rollback: (() => void) | undefined;
+      // A rejected optimistic write fails the mutation before the request is sent
+      defer(() => {
+        if (optimistic) {
+          const existed = !!this.dynamicReducers[key];
+          const previous = this.snapshot(key);
+          this.write(key, 'set', optimistic(previous, input), { source: 'mutation' });
+          const created = !existed && !!this.dynamicReducers[key];
+          const optimisticState = this.snapshot(key);
+          // Only undo our own write; a newer value (e.g. from a refetch) is kept
+          rollback = () => {
+            if (this.snapshot(key) !== optimisticState) return;
+            if (created) {
+              this.remove(key);
+            } else {
+              this.write(key, 'set', previous ?? null, { source: 'mutation' });
+            }
+          };
+        }
+        return request(input);
+      }).subscribe({
+        next: result => result$.next(result),
+        error: error => {
+          this.log('error', key, `[ngrx-store-wrapper] Mutation for key "${key}" failed:`, error);
+          try {
+            rollback?.();
+          } catch (e) {
+            this.log('error', key, `[ngrx-store-wrapper] Could not roll back the optimistic value of "${key}":`, e);
+          }
+          pending--;
+          updateStatus({ loading: pending > 0, error });
+          result$.error(error);
+        },
+        complete: () => {
+          pending--;
+          updateStatus({ loading: pending > 0, error: null, lastUpdated: Date.now() });
+          invalidates.forEach(invalidated => this.refetch(resolveKey(invalidated)));
+          result$.complete();
+        }
+      });
+      return result$.asObservable();
     };
 
-    if (immediate) callApiAndDispatch();
-    if (intervalMs !== undefined) {
-      this.removeEffect(key);
-      
-      const subscription = interval(intervalMs)
-        .subscribe(() => callApiAndDispatch());
-      
-      this.pollingSubscriptions[key] = subscription;
+    return { mutate, status$: status$.asObservable() };
+  }
+
+  // Client side of `transferState`: uses the value the server fetched instead of running the effect again
+  private hydrateEffect(key: string, options: EffectExecutionOptions<any, any>): boolean {
+    if (!options.transferState || this.isServer) return false;
+
+    const stateKey = this.transferStateKey(key);
+    if (!this.transferState.hasKey(stateKey)) return false;
+    const value = this.transferState.get(stateKey, null);
+    // Only the first registration is hydrated; later ones fetch fresh data
+    this.transferState.remove(stateKey);
+    this.writeResult(key, value, { source: 'hydration', effectKey: key }, {
+      entityKey: isEntityKey(options.key) ? options.key : undefined,
+      entityWrite: options.entityWrite
+    });
+    return true;
+  }
+
+  // Entity keys normalise list results on the way in; other keys store the result as is
+  private writeResult(
+    key: string,
+    value: any,
+    meta: WriteMeta,
+    { entityKey, entityWrite = 'setAll' }: Pick<EffectConfig, 'entityKey' | 'entityWrite'>
+  ): void {
+    if (!entityKey) {
+      this.write(key, 'set', value, meta);
+      return;
+    }
+    if (!Array.isArray(value)) {
+      throw new Error(`[ngrx-store-wrapper] Effect result for entity key "${key}" must be an array`);
     }
+    this.write(key, 'entity', this.toEntityList(entityKey, entityWrite, value), meta);
+  }
+
+  private ensureEffectStatusReducer(): void {
+    if (this.staticReducerKeys.has(this.settings.effectStatusKey)) return;
+    this.reducerManager.addReducer(this.settings.effectStatusKey, effectStatusReducer);
+    // Reserved: set() refuses to overwrite it like any manually created reducer
+    this.staticReducerKeys.add(this.settings.effectStatusKey);
+  }
+
+  private trackEffect(action: Action): void {
+    this.ensureEffectStatusReducer();
+    this.store.dispatch(action);
   }
 
-  public recallEffect<T = any>(key: string, updatedArgs?: any): void {
+  public recallEffect<T = any>(keyRef: StoreKeyRef, updatedArgs?: any): void {
+    const key = resolveKey(keyRef);
     const config = this.effectConfigs[key];
     if (!config) {
       if (isDevMode()) {
-        console.warn(`[ngrx-store-wrapper] Cannot recall effect. No config found for key "${key}".`);
+        this.log('warn', key, `[ngrx-store-wrapper] Cannot recall effect. No config found for key "${key}".`);
       }
       return;
     }
@@ -391,181 +1512,639 @@ export class NgrxStoreWrapperService {
       config.args = updatedArgs;
     }
 
-    this.executeEffect(key);
+    config.trigger$.next('recall');
   }
 
-  public removeEffect(key: string): void {
+  public removeEffect(keyRef: StoreKeyRef): void {
+    const key = resolveKey(keyRef);
     if (this.pollingSubscriptions[key]) {
       this.pollingSubscriptions[key].unsubscribe();
       delete this.pollingSubscriptions[key];
     }
 
+    // Cancels any execution still in flight
+    if (this.effectSubscriptions[key]) {
+      this.effectSubscriptions[key].unsubscribe();
+      delete this.effectSubscriptions[key];
+    }
+
     if (this.effectConfigs[key]) {
       delete this.effectConfigs[key];
     }
   }
 
-  public remove(key: string): void {
-    if (!this.dynamicReducers[key]) return;
+  public remove(keyRef: StoreKeyRef): void {
+    const key = resolveKey(keyRef);
+    if (this.computedKeys.has(key)) {
+      this.selectors[key].release();
+      delete this.selectors[key];
+      this.computedKeys.delete(key);
+      this.readyKeys.delete(key);
+      return;
+    }
+    if (!this.dynamicReducers[key]) {
+      // An effect that hasn't written a value yet has no reducer
+      this.removeEffect(key);
+      this.clearEffectStatus(key);
+      return;
+    }
 
-    this.reducerManager.removeReducer(key);
-    delete this.dynamicReducers[key];
-    delete this.dynamicActions[`set${key}`];
-    delete this.selectors[key];
+    this.unregisterDynamicReducer(key);
     delete this.effectConfigs[key];
 
     this.removeEffect(key);
+    this.clearEffectStatus(key);
     this.pendingKeys.delete(key);
     this.readyKeys.delete(key);
+    this.lastWrites.delete(key);
+    this.queryCache.delete(key);
+    this.disableHistory(key);
+    this.keyTtls.delete(key);
+    this.clearExpiry(key);
 
     if (this.persistedKeys.has(key)) this.disablePersistence(key);
+    this.emit({ type: 'removed', key });
   }
 
-  public enablePersistence(key: string, type: StorageType): void {
-    // 1. Key existence check (selector acts as verification)
-    if (!this.selectors[key]) {
+  // The status outlives removeEffect(), so an effect registered again keeps its call count and last error
+  private clearEffectStatus(key: string): void {
+    if (this.staticReducerKeys.has(this.settings.effectStatusKey)) {
+      this.store.dispatch(effectStatusCleared({ key }));
+    }
+  }
+
+  private setTtl(keyRef: StoreKeyRef, { ttlMs, onExpire }: Omit<KeyTtl, 'initial'>): void {
+    const key = resolveKey(keyRef);
+    const hadExpiry = this.isExpiring(key);
+    this.keyTtls.set(key, { ttlMs, onExpire, initial: isStoreKey(keyRef) ? keyRef.initial : undefined });
+    const type = this.persistedKeys.get(key);
+    if (type && !hadExpiry && this.persistenceSubscriptions.has(key)) {
+      this.updatePersistedKeysMeta(key, type, true);
+    }
+  }
+
+  private restartExpiry(key: string, source: WriteSource): void {
+    // The expiry belonged to the value that was just replaced
+    this.clearExpiry(key);
+    const ttl = this.keyTtls.get(key);
+    if (ttl && source !== 'expiry') {
+      this.scheduleExpiry(key, Date.now() + ttl.ttlMs);
+    }
+  }
+
+  private scheduleExpiry(key: string, expiresAt: number): void {
+    this.clearExpiry(key);
+    // Nothing outlives a server render, and pending timers would keep it from becoming stable
+    if (this.isServer) return;
+    const timer = setTimeout(() => this.expire(key), Math.max(0, expiresAt - Date.now()));
+    this.expiries.set(key, { expiresAt, timer });
+  }
+
+  private clearExpiry(key: string): void {
+    const expiry = this.expiries.get(key);
+    if (expiry) {
+      clearTimeout(expiry.timer);
+      this.expiries.delete(key);
+    }
+  }
+
+  private expire(key: string): void {
+    this.expiries.delete(key);
+    const ttl = this.keyTtls.get(key);
+    const action = ttl?.onExpire ?? this.getPersistenceOptions(key)?.onExpire ?? 'remove';
+    if (action === 'refetch' && this.effectConfigs[key]) {
+      this.refetch(key);
+    } else if (action === 'reset') {
+      try {
+        this.write(key, 'set', ttl?.initial ?? getDeclaredStoreKey(key)?.initial ?? null, { source: 'expiry' });
+      } catch (e) {
+        this.log('error', key, `[ngrx-store-wrapper] Could not reset expired key "${key}", removing it instead:`, e);
+        this.remove(key);
+      }
+    } else {
+      if (action === 'refetch' && isDevMode()) {
+        this.log('warn', key, `[ngrx-store-wrapper] Key "${key}" expired with onExpire: 'refetch' but has no effect; removing it.`);
+      }
+      this.remove(key);
+    }
+  }
+
+  private isExpiring(key: string): boolean {
+    return this.keyTtls.has(key) || !!this.getPersistenceOptions(key)?.maxAgeMs;
+  }
+
+  // Earliest of the key's TTL expiry and its persisted max age, counted from now
+  private getPersistedExpiry(key: string): number | undefined {
+    const maxAgeMs = this.getPersistenceOptions(key)?.maxAgeMs;
+    const candidates = [this.expiries.get(key)?.expiresAt, maxAgeMs ? Date.now() + maxAgeMs : undefined]
+      .filter((at): at is number => at !== undefined);
+    return candidates.length ? Math.min(...candidates) : undefined;
+  }
+
+  public enablePersistence<T>(keyRef: StoreKey<T>, type?: StorageTarget, options?: PersistenceOptions<T>): void;
+  public enablePersistence<T = any>(keyRef: string, type: StorageTarget, options?: PersistenceOptions<T>): void;
+  public enablePersistence(keyRef: StoreKeyRef, type?: StorageTarget, options?: PersistenceOptions): void {
+    const key = isStoreKey(keyRef) ? this.registerStoreKey(keyRef, false) : keyRef;
+    // There is no browser storage during server rendering
+    if (this.isServer) return;
+    if (!type) {
+      if (!isStoreKey(keyRef) || !keyRef.persist) {
+        throw new Error(`[ngrx-store-wrapper] No storage type given for key "${key}".`);
+      }
+      type = keyRef.persist;
+    }
+    options = options ?? (isStoreKey(keyRef) ? keyRef.persistOptions : undefined) ?? {};
+
+    if (this.computedKeys.has(key)) {
+      throw new Error(`[ngrx-store-wrapper] Computed key "${key}" is derived state and cannot be persisted.`);
+    }
+
+    // 1. Key existence check (selector acts as verification); a stored value waiting for its codec counts
+    const undecoded = this.undecodedValues.get(key);
+    if (!this.selectors[key] && undecoded?.type !== type) {
       throw new Error(
         `[ngrx-store-wrapper] Key "${key}" does not exist in store. ` +
         `Call set() before enablePersistence().`
       );
     }
-  
-    const storage = type === StorageType.Local ? localStorage : sessionStorage;
-    if(this.persistedKeys.has(key)) {
-      if(this.persistedKeys.get(key) === type) {
-        if(isDevMode()) {
-          console.warn(`[ngrx-store-wrapper] Key "${key}" is already persisted.`);
+
+    // 2. Adapter check
+    this.getStorageAdapter(type);
+
+    if (this.persistedKeys.has(key)) {
+      if (this.persistedKeys.get(key) === type && this.persistenceSubscriptions.has(key)) {
+        const previousMaxAgeMs = this.getPersistenceOptions(key)?.maxAgeMs;
+        this.persistenceOptions.set(key, options);
+        if ((options.version ?? 0) !== this.persistedVersions.get(key)) {
+          // Value was restored before its current version was known
+          this.migrateRestoredValue(key, type, isStoreKey(keyRef) ? keyRef.initial : undefined);
+        } else if (isDevMode()) {
+          this.log('warn', key, `[ngrx-store-wrapper] Key "${key}" is already persisted.`);
+        }
+        if (hasOwnCodec(options) || options.maxAgeMs !== previousMaxAgeMs) {
+          // Restored with the default codec or another max age; store it again with the key's own
+          this.updatePersistedKeysMeta(key, type, true);
+          this.startPersisting(key, type);
+        } else if (options.sync) {
+          // Restored at startup, before the key's options were known
+          this.startSync(key, type);
         }
         return;
       }
-      else{
-        console.warn(
-          `[ngrx-store-wrapper] Overwriting existing value for "${key}" in ` +
-          `${type === StorageType.Local ? 'localStorage' : 'sessionStorage'}`
-        );
+      else if (this.persistedKeys.get(key) !== type) {
+        this.log('warn', key, `[ngrx-store-wrapper] Overwriting existing value for "${key}" in "${type}" storage`);
         this.disablePersistence(key);
       }
     }
-  
-    // 3. Persist current value (using existing selector)
-    this.store.pipe(
-      select(this.selectors[key]), // Guaranteed to exist
-      take(1)
-    ).subscribe(currentValue => {
-      try {
-        storage.setItem(key, JSON.stringify(currentValue));
-      } catch (e) {
-        if (e instanceof DOMException && e.name === 'QuotaExceededError') {
-          console.error(`Storage quota exceeded for key "${key}"`);
-          this.disablePersistence(key); // Auto-disable if quota exceeded
-        } else {
-          console.error(`Persist failed for ${key}`, e);
-        }
-      }
-    });
-  
-    // 4. Set up future updates
+
+    if (undecoded?.type === type) {
+      this.undecodedValues.delete(key);
+      this.persistenceOptions.set(key, options);
+      this.keyRestorations.set(key, this.settleRestore(key, undecoded.type, () => whenResolved(
+        this.decodePersisted(key, undecoded.value, options),
+        value => this.applyRestoredValue(key, undecoded.type, value, undecoded.version, options, undecoded.expiresAt)
+      )));
+      return;
+    }
+
+    // 3. Register the key and persist its current value
     this.persistedKeys.set(key, type);
-    this.updatePersistedKeysMeta(key, type);
-  
-    this.persistenceSubscriptions.get(key)?.unsubscribe();
-    this.persistenceSubscriptions.set(
-      key,
-      this.store.pipe(
-        select(this.selectors[key]), // Reuse selector
-        distinctUntilChanged(),
-        debounceTime(50)
-      ).subscribe(value => {
-        try {
-          storage.setItem(key, JSON.stringify(value));
-        } catch (e) {
-          console.error(`Persist update failed for ${key}`, e);
-        }
-      })
-    );
+    this.persistenceOptions.set(key, options);
+    this.persistedVersions.set(key, options.version ?? 0);
+    this.updatePersistedKeysMeta(key, type, true);
+    this.startPersisting(key, type);
   }
 
-  public disablePersistence(key: string): void {
+  public disablePersistence(keyRef: StoreKeyRef): void {
+    if (this.isServer) return;
+    const key = resolveKey(keyRef);
     if (!this.persistedKeys.has(key)) {
       if (isDevMode()) {
-        console.warn(`[ngrx-store-wrapper] Key "${key}" is not currently persisted`);
+        this.log('warn', key, `[ngrx-store-wrapper] Key "${key}" is not currently persisted`);
       }
       return;
     }
   
     const type = this.persistedKeys.get(key)!;
-    const storage = type === StorageType.Local ? localStorage : sessionStorage;
   
     // Cleanup storage
+    const onRemoveError = (e: unknown) =>
+      this.log('error', key, `[ngrx-store-wrapper] Failed to remove "${key}" from storage:`, e);
     try {
-      storage.removeItem(key);
+      const removed = this.getStorageAdapter(type).removeItem(this.storageKey(key));
+      if (isPromiseLike(removed)) removed.then(undefined, onRemoveError);
     } catch (e) {
-      console.error(`[ngrx-store-wrapper] Failed to remove "${key}" from storage:`, e);
+      onRemoveError(e);
     }
   
     // Cleanup subscriptions
     this.persistenceSubscriptions.get(key)?.unsubscribe();
     this.persistenceSubscriptions.delete(key);
+    this.syncedKeys.delete(key);
+    this.remoteWrites.delete(key);
+    this.undecodedValues.delete(key);
+    this.latestPersistWrites.delete(key);
   
     // Update persistence state
-    this.updatePersistedKeysMeta(key, null);
+    this.updatePersistedKeysMeta(key, type, false);
     this.persistedKeys.delete(key);
+    this.persistenceOptions.delete(key);
+    this.persistedVersions.delete(key);
   
     if (isDevMode()) {
-      console.log(`[ngrx-store-wrapper] Disabled persistence for key: "${key}"`);
+      this.log('debug', key, `[ngrx-store-wrapper] Disabled persistence for key: "${key}"`);
     }
+    this.emit({ type: 'persistenceDisabled', key, storage: type });
   }
 
-  private loadPersistedKeys(): void {
-    const local = localStorage.getItem(LOCAL_KEY_META);
-    const session = sessionStorage.getItem(SESSION_KEY_META);
+  public registerStorageAdapter(name: StorageTarget, adapter: StorageAdapter): void {
+    if (!adapter || typeof adapter.getItem !== 'function' || typeof adapter.setItem !== 'function'
+      || typeof adapter.removeItem !== 'function') {
+      throw new Error(`[ngrx-store-wrapper] Storage adapter "${name}" must implement getItem, setItem and removeItem`);
+    }
+    this.storageAdapters.set(name, adapter);
 
-    if (local) {
-      try {
-        const parsed = JSON.parse(local);
-        Object.keys(parsed).forEach((key) => this.persistedKeys.set(key, StorageType.Local));
-      } catch {}
+    // Keys persisted in a newly registered backend are restored right away
+    if (this.store && !this.isServer) {
+      this.restoreFromAdapter(name);
     }
+  }
 
-    if (session) {
-      try {
-        const parsed = JSON.parse(session);
-        Object.keys(parsed).forEach((key) => this.persistedKeys.set(key, StorageType.Session));
-      } catch {}
+  // Resolves once the key (or every persisted key) has finished rehydrating from storage.
+  // Keys that were never persisted resolve immediately.
+  public whenRestored(keyRef?: StoreKeyRef): Promise<void> {
+    return Promise.all(this.adapterRestorations.values()).then(() => {
+      if (keyRef === undefined) {
+        return Promise.all(this.keyRestorations.values()).then(() => undefined);
+      }
+      return this.keyRestorations.get(resolveKey(keyRef));
+    });
+  }
+
+  private storageKey(key: string): string {
+    return this.settings.storageKeyPrefix + key;
+  }
+
+  private get metaStorageKey(): string {
+    return this.storageKey(this.settings.persistedKeysMetaKey);
+  }
+
+  private transferStateKey(key: string) {
+    return makeStateKey<any>(this.settings.storageKeyPrefix + this.settings.transferStatePrefix + key);
+  }
+
+  private getStorageAdapter(type: StorageTarget): StorageAdapter {
+    const adapter = this.storageAdapters.get(type);
+    if (!adapter) {
+      throw new Error(
+        `[ngrx-store-wrapper] No storage adapter registered for "${type}". ` +
+        `Call registerStorageAdapter("${type}", adapter) first.`
+      );
     }
+    return adapter;
   }
 
-  private updatePersistedKeysMeta(key: string, type: StorageType | null): void {
-    const targetType = type ?? this.persistedKeys.get(key);
-    if (!targetType) return;
+  private startPersisting(key: string, type: StorageTarget): void {
+    // Persist current value (using existing selector)
+    this.store.pipe(
+      select(this.selectors[key]), // Guaranteed to exist
+      take(1)
+    ).subscribe(currentValue => this.writePersistedValue(key, type, currentValue, true));
 
-    const metaKey = targetType === StorageType.Local ? LOCAL_KEY_META : SESSION_KEY_META;
-    const storage = targetType === StorageType.Local ? localStorage : sessionStorage;
-    const currentMetaStr = storage.getItem(metaKey);
-    const meta: Record<string, boolean> = currentMetaStr ? JSON.parse(currentMetaStr) : {};
+    // Set up future updates
+    this.persistenceSubscriptions.get(key)?.unsubscribe();
+    this.persistenceSubscriptions.set(
+      key,
+      this.store.pipe(
+        select(this.selectors[key]), // Reuse selector
+        distinctUntilChanged(),
+        debounceTime(this.settings.persistenceDebounceMs)
+      ).subscribe(value => this.writePersistedValue(key, type, value, false))
+    );
 
-    if (type) {
-        meta[key] = true;
-    } else {
-        delete meta[key];
+    if (this.getPersistenceOptions(key)?.sync) {
+      this.startSync(key, type);
     }
+  }
 
-    storage.setItem(metaKey, JSON.stringify(meta));
-}
+  private startSync(key: string, type: StorageTarget): void {
+    if (type === StorageType.Session) {
+      if (isDevMode()) {
+        this.log('warn', key, `[ngrx-store-wrapper] sessionStorage is per tab; cross-tab sync is ignored for "${key}".`);
+      }
+      return;
+    }
+    this.syncedKeys.set(key, type);
+
+    // localStorage changes reach other tabs through `storage` events; other backends
+    // announce their writes on a BroadcastChannel.
+    if (type === StorageType.Local) {
+      if (!this.storageEventListener && typeof window !== 'undefined') {
+        const prefix = this.settings.storageKeyPrefix;
+        this.storageEventListener = (event: StorageEvent) => {
+          const key = event.key?.startsWith(prefix) ? event.key.slice(prefix.length) : null;
+          // A removed value means the other tab stopped persisting the key; this tab keeps its value
+          if (key && event.newValue !== null && event.storageArea === localStorage
+            && this.syncedKeys.get(key) === StorageType.Local) {
+            this.applyRemoteValue(key, event.newValue);
+          }
+        };
+        window.addEventListener('storage', this.storageEventListener);
+      }
+    } else if (!this.syncChannel && typeof BroadcastChannel !== 'undefined') {
+      this.syncChannel = new BroadcastChannel(this.settings.storageKeyPrefix + this.settings.syncChannelName);
+      this.syncChannel.onmessage = ({ data }: MessageEvent<SyncMessage>) => {
+        if (data && this.syncedKeys.get(data.key) === data.type) {
+          this.applyRemoteValue(data.key, data.value);
+        }
+      };
+    }
+  }
+
+  private applyRemoteValue(key: string, stored: string): void {
+    const onError = (e: unknown) =>
+      this.log('error', key, `[ngrx-store-wrapper] Ignoring unreadable cross-tab update for key "${key}"`, e);
+    try {
+      // The other tab may know about a max age or TTL this tab hasn't been told about yet
+      const { data, expiresAt } = unwrapExpiry(stored);
+      const applied = whenResolved(this.decodePersisted(key, data), value => {
+        // The persistence subscription will see this change; remember it so it isn't written back
+        this.remoteWrites.set(key, this.getCodec(key).serialize(value));
+        this.write(key, 'set', value, { source: 'sync' });
+        if (expiresAt !== undefined) this.scheduleExpiry(key, expiresAt);
+      });
+      if (isPromiseLike(applied)) applied.then(undefined, onError);
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  private broadcast(key: string, type: StorageTarget, value: string): void {
+    if (type !== StorageType.Local && this.syncedKeys.get(key) === type) {
+      this.syncChannel?.postMessage({ key, type, value } as SyncMessage);
+    }
+  }
+
+  private writePersistedValue(key: string, type: StorageTarget, value: any, initial: boolean): void {
+    const onError = (e: unknown) => {
+      if (isQuotaExceededError(e)) {
+        this.log('error', key, `Storage quota exceeded for key "${key}"`);
+        // Auto-disable if quota exceeded, unless persistence already moved elsewhere
+        if (this.persistedKeys.get(key) === type) this.disablePersistence(key);
+      } else if (initial) {
+        this.log('error', key, `Persist failed for ${key}`, e);
+      } else {
+        this.log('error', key, `Persist update failed for ${key}`, e);
+      }
+    };
 
-private restorePersistedState(): void {
-  this.persistedKeys.forEach((type, key) => {
-    const storage = type === StorageType.Local ? localStorage : sessionStorage;
     try {
-      const value = storage.getItem(key);
-      if (value) {
-        this.set(key, JSON.parse(value));
+      const codec = this.getCodec(key);
+      const serialized = codec.serialize(value);
+      const isRemoteEcho = this.remoteWrites.get(key) === serialized;
+      this.remoteWrites.delete(key);
+      if (isRemoteEcho) return;
+
+      // A newer value may be stored while async transforms of an older one are still running
+      const writeId = ++this.persistWriteCount;
+      this.latestPersistWrites.set(key, writeId);
+      const expiresAt = this.getPersistedExpiry(key);
+      const store = (transformed: string) => {
+        if (this.latestPersistWrites.get(key) !== writeId || this.persistedKeys.get(key) !== type) return;
+        const stored = wrapExpiry(transformed, expiresAt);
+        return whenResolved(this.getStorageAdapter(type).setItem(this.storageKey(key), stored), () => {
+          this.broadcast(key, type, stored);
+          this.emit({ type: 'persisted', key, storage: type });
+        });
+      };
+      const written = whenResolved(runTransforms(serialized, codec.transforms, 'write'), store);
+      if (isPromiseLike(written)) written.then(undefined, onError);
+    } catch (e) {
+      onError(e);
+    }
+  }
+
+  // The key's own codec, falling back to the app-wide defaults and then to JSON
+  private getCodec(key: string, options = this.getPersistenceOptions(key)): Required<PersistenceCodec> {
+    const defaults = this.persistenceDefaults;
+    return {
+      serialize: options?.serialize ?? defaults.serialize ?? JSON.stringify,
+      deserialize: options?.deserialize ?? defaults.deserialize ?? JSON.parse,
+      transforms: options?.transforms ?? defaults.transforms ?? []
+    };
+  }
+
+  private decodePersisted(key: string, stored: string, options?: PersistenceOptions): any {
+    const codec = this.getCodec(key, options);
+    return whenResolved(runTransforms(stored, codec.transforms, 'read'), data => codec.deserialize(data));
+  }
+
+  private restorePersistedState(): void {
+    if (this.isServer) return;
+    this.storageAdapters.forEach((_, type) => this.restoreFromAdapter(type));
+  }
+
+  private restoreFromAdapter(type: StorageTarget): void {
+    const adapter = this.getStorageAdapter(type);
+    const onMetaError = (e: unknown) =>
+      this.log('error', undefined, `[ngrx-store-wrapper] Failed to read persisted keys from "${type}" storage`, e);
+
+    let loaded: void | Promise<void> = undefined;
+    try {
+      loaded = whenResolved(adapter.getItem(this.metaStorageKey), metaStr => {
+        if (!metaStr) return;
+        try {
+          const meta: PersistedKeysMeta = JSON.parse(metaStr);
+          Object.keys(meta).forEach((key) => {
+            this.persistedKeys.set(key, type);
+            this.restoreKey(key, type, meta);
+          });
+        } catch {}
+      });
+    } catch (e) {
+      onMetaError(e);
+    }
+    this.adapterRestorations.set(
+      type,
+      isPromiseLike(loaded) ? loaded.then(undefined, onMetaError) : Promise.resolve()
+    );
+  }
+
+  private restoreKey(key: string, type: StorageTarget, meta: PersistedKeysMeta): void {
+    const adapter = this.getStorageAdapter(type);
+    const storedVersion = getStoredVersion(meta, key);
+    const apply = (value: string | null): void | Promise<void> => {
+      // Persistence moved or was disabled while an async read was in flight
+      if (this.persistedKeys.get(key) !== type) return;
+      this.persistedVersions.set(key, storedVersion);
+      // A value set by the app while an async read was in flight wins over the stored one
+      if (value && !this.readyKeys.has(key)) {
+        const { data, expiresAt } = isExpiringPersistedKey(meta, key)
+          ? unwrapExpiry(value)
+          : { data: value, expiresAt: undefined };
+        if (expiresAt !== undefined && expiresAt <= Date.now()) {
+          this.removeStoredValue(key, type);
+          return;
+        }
+        const options = this.getPersistenceOptions(key);
+        // A versioned value may need migrating before anything reads it, so it waits for its options too
+        if (!options && (isEncodedPersistedKey(meta, key) || storedVersion > 0)) {
+          this.undecodedValues.set(key, { type, value: data, version: storedVersion, expiresAt });
+          return;
+        }
+        return whenResolved(
+          this.decodePersisted(key, data, options),
+          decoded => this.applyRestoredValue(key, type, decoded, storedVersion, options, expiresAt)
+        );
+      }
+      this.resumePersisting(key, type);
+    };
+
+    this.keyRestorations.set(key, this.settleRestore(key, type, () => whenResolved(adapter.getItem(this.storageKey(key)), apply)));
+  }
+
+  // Runs one restore step; a value that can't be read is removed from storage, unless a transform can't read it yet
+  private settleRestore(key: string, type: StorageTarget, restore: () => void | Promise<void>): Promise<void> {
+    const onError = (e: unknown) => {
+      if (e instanceof PersistenceTransformUnavailableError) {
+        this.log('warn', key, `[ngrx-store-wrapper] Could not restore persisted state for key "${key}", keeping it in storage`, e);
+        return;
       }
+      this.log('error', key, `[ngrx-store-wrapper] Failed to restore persisted state for key "${key}", removing key from storage`, e);
+      try {
+        const removed = this.getStorageAdapter(type).removeItem(this.storageKey(key));
+        if (isPromiseLike(removed)) removed.then(undefined, () => {});
+      } catch {}
+    };
+
+    let restored: void | Promise<void> = undefined;
+    try {
+      restored = restore();
     } catch (e) {
-      console.error(`[ngrx-store-wrapper] Failed to restore persisted state for key "${key}", removing key from storage`, e);
-      storage.removeItem(key);
+      onError(e);
+    }
+    return isPromiseLike(restored) ? restored.then(undefined, onError) : Promise.resolve();
+  }
+
+  private applyRestoredValue(
+    key: string,
+    type: StorageTarget,
+    value: any,
+    storedVersion: number,
+    options: PersistenceOptions | undefined,
+    expiresAt?: number
+  ): void {
+    // Checked again: decoding may have been asynchronous
+    if (this.persistedKeys.get(key) !== type) return;
+    if (!this.readyKeys.has(key)) {
+      if (!options) {
+        // Stored without a version; enablePersistence() migrates it if it declares one
+        this.write(key, 'set', value, { source: 'restore' });
+      } else {
+        const result = migratePersistedValue(value, storedVersion, options);
+        if ('discardReason' in result) {
+          this.discardPersistedValue(key, type, result.discardReason);
+          return;
+        }
+        this.write(key, 'set', result.value, { source: 'restore' });
+        this.markVersion(key, type, options.version ?? 0);
+      }
+      this.emit({ type: 'restored', key, storage: type });
+      if (expiresAt !== undefined) {
+        this.scheduleExpiry(key, expiresAt);
+      }
+    }
+    this.resumePersisting(key, type);
+  }
+
+  private resumePersisting(key: string, type: StorageTarget): void {
+    if (this.selectors[key] && !this.persistenceSubscriptions.has(key)) {
+      this.startPersisting(key, type);
     }
-  });
+  }
+
+  private getPersistenceOptions(key: string): PersistenceOptions | undefined {
+    return this.persistenceOptions.get(key) ?? getDeclaredStoreKey(key)?.persistOptions;
+  }
+
+  private migrateRestoredValue(key: string, type: StorageTarget, fallback: any): void {
+    const options = this.getPersistenceOptions(key) ?? {};
+    const fromVersion = this.persistedVersions.get(key) ?? 0;
+    this.store.pipe(select(this.selectors[key]), take(1)).subscribe(current => {
+      const result = migratePersistedValue(current, fromVersion, options);
+      if ('discardReason' in result) {
+        this.write(key, 'set', fallback ?? null, { source: 'restore' });
+        this.log('warn', key, `[ngrx-store-wrapper] Discarded persisted value for key "${key}": ${result.discardReason}`);
+      } else {
+        this.write(key, 'set', result.value, { source: 'restore' });
+      }
+      this.markVersion(key, type, options.version ?? 0);
+    });
+  }
+
+  private discardPersistedValue(key: string, type: StorageTarget, reason: string): void {
+    this.log('warn', key, `[ngrx-store-wrapper] Discarded persisted value for key "${key}": ${reason}`);
+    this.removeStoredValue(key, type);
+  }
+
+  private removeStoredValue(key: string, type: StorageTarget): void {
+    try {
+      const removed = this.getStorageAdapter(type).removeItem(this.storageKey(key));
+      if (isPromiseLike(removed)) removed.then(undefined, () => {});
+    } catch {}
+  }
+
+  private markVersion(key: string, type: StorageTarget, version: number): void {
+    this.persistedVersions.set(key, version);
+    this.updatePersistedKeysMeta(key, type, true);
+  }
+
+  private updatePersistedKeysMeta(key: string, type: StorageTarget, persisted: boolean): void {
+    const adapter = this.getStorageAdapter(type);
+    const version = this.persistedVersions.get(key);
+    const encoded = hasOwnCodec(this.getPersistenceOptions(key));
+    const expires = this.isExpiring(key);
+    const apply = () => whenResolved(adapter.getItem(this.metaStorageKey), currentMetaStr => {
+      const meta: PersistedKeysMeta = currentMetaStr ? JSON.parse(currentMetaStr) : {};
+
+      if (persisted) {
+        meta[key] = version || encoded || expires
+          ? { version: version || undefined, encoded: encoded || undefined, expires: expires || undefined }
+          : true;
+      } else {
+        delete meta[key];
+      }
+
+      return adapter.setItem(this.metaStorageKey, JSON.stringify(meta));
+    });
+
+    // Async backends apply metadata writes in order so concurrent updates are not lost
+    const onError = (e: unknown) =>
+      this.log('error', undefined, `[ngrx-store-wrapper] Failed to update persisted keys in "${type}" storage`, e);
+    const pending = this.metaWrites.get(type);
+    const result = pending ? pending.then(apply) : apply();
+    if (isPromiseLike(result)) {
+      this.metaWrites.set(type, Promise.resolve(result).then(undefined, onError));
+    }
+  }
+
+private useKey(keyRef: StoreKeyRef): string {
+  return isStoreKey(keyRef) ? this.registerStoreKey(keyRef) : keyRef;
+}
+
+// Seeds a typed key with its declared initial value the first time it is used
+// and applies its declared persistence once the key exists.
+private registerStoreKey<T>(storeKey: StoreKey<T>, applyPersistence = true): string {
+  const { key, initial, persist } = storeKey;
+  const exists = !!this.dynamicReducers[key] || this.staticReducerKeys.has(key)
+    || this.computedKeys.has(key) || this.pendingKeys.has(key);
+  if (!exists && initial !== undefined) {
+    this.set(key, initial);
+  }
+  if (applyPersistence && persist && this.dynamicReducers[key] && !this.persistedKeys.has(key)) {
+    this.enablePersistence(key, persist, storeKey.persistOptions);
+  }
+  return key;
 }
 
 private readonly autoBindCache = new WeakMap<Function, Function>();
@@ -601,25 +2180,11 @@ private autoBind(fn: Function, context?: any): (...args: any[]) => Observable<an
         const instance = this.injector.get(ownerClass, { optional: true });
         if (instance) boundFn = fn.bind(instance);
       }
-    } else if (fn.name) {
-      try {
-        const classNameMatch = fn.name.match(/^bound (\w+)/);
-        const className = classNameMatch ? classNameMatch[1] : fn.name.split('.').shift();
-        if (className) {
-          const ownerClass = this.findClassByName(className);
-          if (ownerClass) {
-            const instance = this.injector.get(ownerClass, { optional: true });
-            if (instance) boundFn = fn.bind(instance);
-          }
-        }
-      } catch (e) {
-        console.warn('[ngrx-store-wrapper] Auto-bind name parsing failed', e);
-      }
     }
   }
 
   if (!boundFn) {
-    throw new Error('[ngrx-store-wrapper] Failed to auto-bind serviceFn. Use @AutoBind() or provide context.');
+    throw new Error('[ngrx-store-wrapper] Failed to auto-bind serviceFn. Use @StoreEffect(), @AutoBind() or provide context.');
   }
 
   (boundFn as any).__autoBound = true;
@@ -627,11 +2192,4 @@ private autoBind(fn: Function, context?: any): (...args: any[]) => Observable<an
 
   return boundFn as (...args: any[]) => Observable<any>;
 }
-
-  
-  private findClassByName(name: string): Type<any> | null {
-    // This is a simplified approach - you might need a more robust solution
-    const classes = (window as any).__ngrx_wrapper_classes__ || [];
-    return classes.find((cls: any) => cls.name === name) || null;
-  }
 }
@@ -0,0 +1,126 @@
+import { InjectionToken } from '@angular/core';
+import { whenResolved } from './storage-adapter';
+
+// A stage between the serialized value and storage, e.g. compression or encryption
+export interface PersistenceTransform {
+  // Applied after serialize(), in the order the stages are listed
+  write(data: string): string | Promise<string>;
+  // Applied before deserialize(), in reverse order
+  read(data: string): string | Promise<string>;
+}
+
+/**
+ * Thrown by a transform that can't read a value for now, e.g. while its key is unavailable.
+ * Other restore failures remove the stored value; this one leaves it in storage.
+ */
+export class PersistenceTransformUnavailableError extends Error {
+  override readonly name = 'PersistenceTransformUnavailableError';
+
+  constructor(readonly reason: string, readonly error?: unknown) {
+    super(`[ngrx-store-wrapper] Persistence transform unavailable: ${reason}`);
+  }
+}
+
+export interface PersistenceCodec<T = any> {
+  // Defaults to JSON.stringify / JSON.parse
+  serialize?: (value: T) => string;
+  deserialize?: (data: string) => T;
+  transforms?: PersistenceTransform[];
+}
+
+// Codec used by every persisted key that doesn't declare its own serialize, deserialize or transforms
+export const PERSISTENCE_DEFAULTS = new InjectionToken<PersistenceCodec>('ngrx-store-wrapper persistence defaults');
+
+// What happens to a key when its TTL lapses: removed, reset to its StoreKey's initial value (or null),
+// or refetched by its effect while the current value stays visible
+export type ExpiryAction = 'remove' | 'reset' | 'refetch';
+
+export interface PersistenceOptions<T = any> extends PersistenceCodec<T> {
+  // Shape version of the persisted value. Unversioned values count as version 0.
+  version?: number;
+  // Upgrades a value stored under an older version. Return undefined to discard it.
+  migrate?: (oldValue: any, fromVersion: number) => T | undefined;
+  // Applies changes made to the persisted value in other tabs of the same origin
+  sync?: boolean;
+  // Stored values older than this are dropped on restore; a restored value expires once it reaches this age
+  maxAgeMs?: number;
+  // Applies to restored values reaching maxAgeMs and to keys set with a TTL that don't give their own
+  onExpire?: ExpiryAction;
+}
+
+// `encoded`: the value was stored with a key-specific codec, which must be known before it can be restored.
+// `expires`: the value may be prefixed with its expiry timestamp.
+export type PersistedKeysMeta = Record<string, true | { version?: number; encoded?: true; expires?: true }>;
+
+export type MigrationResult<T> = { value: T } | { discardReason: string };
+
+export function getStoredVersion(meta: PersistedKeysMeta, key: string): number {
+  const entry = meta[key];
+  return typeof entry === 'object' && typeof entry.version === 'number' ? entry.version : 0;
+}
+
+export function isEncodedPersistedKey(meta: PersistedKeysMeta, key: string): boolean {
+  const entry = meta[key];
+  return typeof entry === 'object' && entry.encoded === true;
+}
+
+export function isExpiringPersistedKey(meta: PersistedKeysMeta, key: string): boolean {
+  const entry = meta[key];
+  return typeof entry === 'object' && entry.expires === true;
+}
+
+const EXPIRY_PATTERN = /^exp:(\d+):/;
+
+export function wrapExpiry(data: string, expiresAt: number | undefined): string {
+  return expiresAt === undefined ? data : `exp:${expiresAt}:${data}`;
+}
+
+export function unwrapExpiry(stored: string): { data: string; expiresAt?: number } {
+  const match = EXPIRY_PATTERN.exec(stored);
+  return match ? { data: stored.slice(match[0].length), expiresAt: Number(match[1]) } : { data: stored };
+}
+
+export function hasOwnCodec(options: PersistenceOptions | undefined): boolean {
+  return !!options && !!(options.serialize || options.deserialize || options.transforms);
+}
+
+// Runs the transform stages for one direction, staying synchronous while every stage is
+export function runTransforms(
+  data: string,
+  transforms: PersistenceTransform[],
+  direction: 'write' | 'read'
+): string | Promise<string> {
+  const stages = direction === 'write' ? transforms : [...transforms].reverse();
+  return stages.reduce<string | Promise<string>>(
+    (current, stage) => whenResolved(current, value => stage[direction](value)),
+    data
+  );
+}
+
+// Values that can't be brought up to the current version are discarded rather than loaded blindly:
+// newer than the current version, no migrate() for an older version, migrate() throwing or returning undefined.
+export function migratePersistedValue<T>(
+  value: any,
+  fromVersion: number,
+  options: PersistenceOptions<T>
+): MigrationResult<T> {
+  const version = options.version ?? 0;
+  if (fromVersion === version) {
+    return { value };
+  }
+  if (fromVersion > version) {
+    return { discardReason: `stored version ${fromVersion} is newer than current version ${version}` };
+  }
+  if (!options.migrate) {
+    return { discardReason: `no migrate() function to upgrade from version ${fromVersion} to ${version}` };
+  }
+
+  try {
+    const migrated = options.migrate(value, fromVersion);
+    return migrated === undefined
+      ? { discardReason: `migrate() returned undefined for version ${fromVersion}` }
+      : { value: migrated };
+  } catch (e) {
+    return { discardReason: `migrate() threw for version ${fromVersion}: ${e}` };
+  }
+}
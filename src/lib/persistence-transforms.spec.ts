@@ -0,0 +1,29 @@
+import { PersistenceTransformUnavailableError } from './persistence-options';
+import { createEncryptionTransform } from './persistence-transforms';
+
+describe('createEncryptionTransform', () => {
+  const generateKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+  it('reads back what it wrote with the same key', async () => {
+    const key = await generateKey();
+    const transform = createEncryptionTransform(key);
+
+    expect(await transform.read(await transform.write('secret'))).toBe('secret');
+  });
+
+  it('reports an unavailable key instead of a failed decryption', async () => {
+    const encrypted = await createEncryptionTransform(await generateKey()).write('secret');
+
+    await expectAsync(createEncryptionTransform(() => undefined).read(encrypted))
+      .toBeRejectedWithError(PersistenceTransformUnavailableError);
+    await expectAsync(createEncryptionTransform(() => { throw new Error('locked'); }).read(encrypted))
+      .toBeRejectedWithError(PersistenceTransformUnavailableError);
+  });
+
+  it('fails authentication with a different key', async () => {
+    const encrypted = await createEncryptionTransform(await generateKey()).write('secret');
+
+    await expectAsync(createEncryptionTransform(await generateKey()).read(encrypted))
+      .toBeRejectedWith(jasmine.objectContaining({ name: 'OperationError' }));
+  });
+});
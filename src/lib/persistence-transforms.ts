@@ -0,0 +1,98 @@
+import { PersistenceTransform, PersistenceTransformUnavailableError } from './persistence-options';
+
+export interface CompressionTransformOptions {
+  format?: CompressionFormat;
+  // Values shorter than this many characters are stored as they are (default 1024)
+  minLength?: number;
+}
+
+const COMPRESSED_PREFIX = 'c1:';
+
+/**
+ * Compresses large values with the browser's CompressionStream. Values stored before
+ * compression was enabled, or below `minLength`, are read back unchanged.
+ */
+export function createCompressionTransform(options: CompressionTransformOptions = {}): PersistenceTransform {
+  const { format = 'gzip', minLength = 1024 } = options;
+  return {
+    write: async data => {
+      if (data.length < minLength) return data;
+      const compressed = await pipeBytes(new TextEncoder().encode(data), new CompressionStream(format));
+      return COMPRESSED_PREFIX + toBase64(compressed);
+    },
+    read: async data => {
+      if (!data.startsWith(COMPRESSED_PREFIX)) return data;
+      const bytes = await pipeBytes(fromBase64(data.slice(COMPRESSED_PREFIX.length)), new DecompressionStream(format));
+      return new TextDecoder().decode(bytes);
+    }
+  };
+}
+
+/**
+ * Encrypts values with AES-GCM through WebCrypto. The key is provided by the app, either
+ * directly or through a function that is called for every read and write. Values that fail
+ * authentication, e.g. after the key changed, fail to restore and are removed from storage.
+ * While the key can't be resolved (the function throws or returns nothing), values stay stored.
+ */
+export function createEncryptionTransform(
+  key: CryptoKey | (() => CryptoKey | null | undefined | Promise<CryptoKey | null | undefined>)
+): PersistenceTransform {
+  const resolveKey = async (): Promise<CryptoKey> => {
+    let resolved: CryptoKey | null | undefined;
+    try {
+      resolved = await (typeof key === 'function' ? key() : key);
+    } catch (e) {
+      throw new PersistenceTransformUnavailableError('the encryption key could not be resolved', e);
+    }
+    if (!resolved) {
+      throw new PersistenceTransformUnavailableError('no encryption key is available');
+    }
+    return resolved;
+  };
+  return {
+    write: async data => {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await resolveKey(), new TextEncoder().encode(data));
+      const payload = new Uint8Array(iv.length + encrypted.byteLength);
+      payload.set(iv);
+      payload.set(new Uint8Array(encrypted), iv.length);
+      return toBase64(payload);
+    },
+    read: async data => {
+      const cryptoKey = await resolveKey();
+      const payload = fromBase64(data);
+      let decrypted: ArrayBuffer;
+      try {
+        decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.subarray(0, 12) }, cryptoKey, payload.subarray(12));
+      } catch (e) {
+        // OperationError is a failed authentication tag; anything else is a key that can't decrypt at all
+        if ((e as DOMException)?.name === 'OperationError') throw e;
+        throw new PersistenceTransformUnavailableError('the encryption key can\'t be used for decryption', e);
+      }
+      return new TextDecoder().decode(decrypted);
+    }
+  };
+}
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
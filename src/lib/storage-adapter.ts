@@ -0,0 +1,105 @@
+import { StorageType } from './storage-type.enum';
+
+// Adapters may be synchronous (Web Storage) or asynchronous (IndexedDB, remote backends).
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+// A built-in StorageType or the name a custom adapter was registered under
+export type StorageTarget = StorageType | string;
+
+export class WebStorageAdapter implements StorageAdapter {
+  // The storage is resolved lazily so constructing the adapter never touches `window`
+  constructor(private readonly storage: () => Storage) {}
+
+  getItem(key: string): string | null {
+    return this.storage().getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage().setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage().removeItem(key);
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly dbName = 'ngrx-store-wrapper',
+    private readonly storeName = 'state'
+  ) {}
+
+  getItem(key: string): Promise<string | null> {
+    return this.request<string | undefined>('readonly', store => store.get(key))
+      .then(value => value ?? null);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.request('readwrite', store => store.put(value, key)).then(() => undefined);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => (this.db = undefined));
+    }
+    return this.db;
+  }
+
+  private request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return this.open().then(db => new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    }));
+  }
+}
+
+export function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+// Continues with the adapter's result, staying synchronous for synchronous adapters
+export function whenResolved<T, R>(value: T | Promise<T>, next: (resolved: T) => R | Promise<R>): R | Promise<R> {
+  return isPromiseLike(value) ? Promise.resolve(value).then(next) : next(value);
+}
+
+export function isQuotaExceededError(e: unknown): boolean {
+  return typeof DOMException !== 'undefined' && e instanceof DOMException && e.name === 'QuotaExceededError';
+}
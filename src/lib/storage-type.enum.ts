@@ -1,5 +1,6 @@
 export enum StorageType {
     Local = 'local',
     Session = 'session',
+    Memory = 'memory',
+    IndexedDb = 'indexedDb',
   }
-  
\ No newline at end of file
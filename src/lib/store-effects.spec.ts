@@ -0,0 +1,69 @@
+import { EnvironmentInjector, Injectable, createEnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+import { of } from 'rxjs';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { provideNgrxStoreWrapper, provideStoreEffects } from './ngrx-store-wrapper-wrapper';
+import { StoreEffect } from './store-effects';
+
+@Injectable({ providedIn: 'root' })
+class RatesService {
+  calls: RatesService[] = [];
+
+  @StoreEffect({ key: 'rates' })
+  loadRates() {
+    this.calls.push(this);
+    return of([1]);
+  }
+}
+
+@Injectable()
+class DraftService {
+  destroyed = false;
+
+  @StoreEffect({ key: 'draft' })
+  loadDraft() {
+    return of('text');
+  }
+
+  ngOnDestroy() {
+    this.destroyed = true;
+  }
+}
+
+describe('@StoreEffect', () => {
+  let service: NgrxStoreWrapperService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideNgrxStoreWrapper()]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+  });
+
+  const hasEffect = (key: string) => service.describeKeys().find(info => info.key === key)?.hasEffect ?? false;
+
+  it('runs on the instance the service is provided as', () => {
+    const injector = createEnvironmentInjector([provideStoreEffects(RatesService)], TestBed.inject(EnvironmentInjector));
+    const rates = TestBed.inject(RatesService);
+
+    expect(rates.calls).toEqual([rates]);
+    expect(service.getSignal('rates')()).toEqual([1]);
+    injector.destroy();
+  });
+
+  it('removes the effects when the instance is destroyed', () => {
+    const injector = createEnvironmentInjector(
+      [DraftService, provideStoreEffects(DraftService)],
+      TestBed.inject(EnvironmentInjector)
+    );
+    const draft = injector.get(DraftService);
+    expect(hasEffect('draft')).toBeTrue();
+
+    injector.destroy();
+    expect(hasEffect('draft')).toBeFalse();
+    expect(draft.destroyed).toBeTrue();
+  });
+});
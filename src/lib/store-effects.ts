@@ -0,0 +1,73 @@
+import type { EffectOptions, NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { resolveKey } from './store-key';
+
+// Options of a decorated effect; the method itself is the serviceFn and runs on the service instance
+export type StoreEffectOptions<T = any, R = T> = Omit<EffectOptions<T, R>, 'serviceFn' | 'context'>;
+
+interface DeclaredStoreEffect {
+  method: string | symbol;
+  options: StoreEffectOptions;
+}
+
+const declaredEffects = new WeakMap<Function, DeclaredStoreEffect[]>();
+// Removes the effects added for an instance; called when Angular destroys the instance
+const addedEffects = new WeakMap<object, () => void>();
+const hookedPrototypes = new WeakSet<object>();
+
+/**
+ * Declares a method as the serviceFn of an effect. The effect is added once an injector that includes
+ * provideStoreEffects(TheClass) is created, and removed when the instance is destroyed.
+ */
+export function StoreEffect<T = any, R = T>(options: StoreEffectOptions<T, R>): MethodDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    if (typeof target === 'function') {
+      throw new Error(`[ngrx-store-wrapper] @StoreEffect() cannot decorate static method "${String(propertyKey)}"`);
+    }
+    const owner = target.constructor;
+    declaredEffects.set(owner, [...(declaredEffects.get(owner) ?? []), { method: propertyKey, options }]);
+    removeEffectsOnDestroy(target);
+  };
+}
+
+// Angular calls ngOnDestroy() on a service when the injector that created it is destroyed
+function removeEffectsOnDestroy(prototype: object): void {
+  if (hookedPrototypes.has(prototype)) return;
+  hookedPrototypes.add(prototype);
+  const ngOnDestroy: unknown = Reflect.get(prototype, 'ngOnDestroy');
+  Object.defineProperty(prototype, 'ngOnDestroy', {
+    configurable: true,
+    writable: true,
+    value: function (this: object) {
+      addedEffects.get(this)?.();
+      addedEffects.delete(this);
+      if (typeof ngOnDestroy === 'function') ngOnDestroy.call(this);
+    }
+  });
+}
+
+// Effects declared on the class and its base classes, base classes first
+function getDeclaredEffects(type: Function): DeclaredStoreEffect[] {
+  const effects: DeclaredStoreEffect[] = [];
+  for (let current = type; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+    effects.unshift(...(declaredEffects.get(current) ?? []));
+  }
+  return effects;
+}
+
+// Adds the declared effects of `instance`, once per instance
+export function addStoreEffects(service: NgrxStoreWrapperService, instance: object): void {
+  if (addedEffects.has(instance)) return;
+  const effects = getDeclaredEffects(instance.constructor);
+  if (effects.length === 0) {
+    throw new Error(`[ngrx-store-wrapper] ${instance.constructor.name} has no @StoreEffect() methods`);
+  }
+  const keys = effects.map(({ method, options }) => {
+    const serviceFn: unknown = Reflect.get(instance, method);
+    if (typeof serviceFn !== 'function') {
+      throw new Error(`[ngrx-store-wrapper] @StoreEffect() member "${String(method)}" of ${instance.constructor.name} is not a method`);
+    }
+    service.addEffect({ ...options, serviceFn: (...args: any[]) => serviceFn.apply(instance, args), context: instance });
+    return resolveKey(options.key);
+  });
+  addedEffects.set(instance, () => keys.forEach(key => service.removeEffect(key)));
+}
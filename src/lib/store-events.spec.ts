@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { provideNgrxStoreWrapper } from './ngrx-store-wrapper-wrapper';
+import { StoreWrapperEvent, StoreWrapperLogger } from './store-events';
+
+describe('store events', () => {
+  let service: NgrxStoreWrapperService;
+  let logger: jasmine.Spy<StoreWrapperLogger>;
+
+  beforeEach(() => {
+    logger = jasmine.createSpy('logger');
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideNgrxStoreWrapper({ logger })]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+  });
+
+  it('reports writes to the logger and on events$', () => {
+    const events: StoreWrapperEvent[] = [];
+    service.events$.subscribe(event => events.push(event));
+    service.set('count', 1);
+
+    expect(events.map(event => event.type)).toEqual(['keyCreated', 'set']);
+    expect(logger).toHaveBeenCalledWith(jasmine.objectContaining({ type: 'set', key: 'count', kind: 'set', source: 'manual' }));
+  });
+
+  it('names the key a log message is about', () => {
+    service.recallEffect('missing');
+
+    expect(logger).toHaveBeenCalledWith(jasmine.objectContaining({ type: 'log', level: 'warn', key: 'missing' }));
+  });
+
+  it('keeps writing when the logger throws', () => {
+    logger.and.throwError('logger down');
+    spyOn(console, 'error');
+    service.set('count', 1);
+
+    expect(service.getSignal('count')()).toBe(1);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+import { StorageTarget } from './storage-adapter';
+import { EffectTrigger, WriteKind, WriteSource } from './write-meta';
+
+export type StoreWrapperLogLevel = 'debug' | 'warn' | 'error';
+
+// Every event names the key it concerns (log events only when they have one) and when it happened, in ms since epoch
+export type StoreWrapperEvent =
+  | { type: 'keyCreated'; key: string; at: number }
+  | { type: 'set'; key: string; at: number; kind: WriteKind; source: WriteSource }
+  | { type: 'removed'; key: string; at: number }
+  | { type: 'effectStarted'; key: string; at: number; trigger: EffectTrigger }
+  | { type: 'effectSucceeded'; key: string; at: number; trigger: EffectTrigger; durationMs: number }
+  | { type: 'effectFailed'; key: string; at: number; trigger: EffectTrigger; durationMs: number; error: any }
+  | { type: 'pollTick'; key: string; at: number; intervalMs: number }
+  | { type: 'persisted'; key: string; at: number; storage: StorageTarget }
+  | { type: 'restored'; key: string; at: number; storage: StorageTarget }
+  | { type: 'persistenceDisabled'; key: string; at: number; storage: StorageTarget }
+  | { type: 'log'; key?: string; at: number; level: StoreWrapperLogLevel; message: string; details: unknown[] };
+
+export type StoreWrapperEventType = StoreWrapperEvent['type'];
+
+export type StoreWrapperEventOf<T extends StoreWrapperEventType> = Extract<StoreWrapperEvent, { type: T }>;
+
+// An event before the service stamps its time
+export type StoreWrapperEventInit = StoreWrapperEvent extends infer E ? (E extends any ? Omit<E, 'at'> : never) : never;
+
+// Receives every event; the default one only prints log events
+export type StoreWrapperLogger = (event: StoreWrapperEvent) => void;
+
+export const consoleLogger: StoreWrapperLogger = event => {
+  if (event.type !== 'log') return;
+  console[event.level === 'debug' ? 'log' : event.level](event.message, ...event.details);
+};
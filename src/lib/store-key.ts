@@ -0,0 +1,59 @@
+import { StorageTarget } from './storage-adapter';
+import { PersistenceOptions } from './persistence-options';
+
+export interface StoreKeyOptions<T> {
+  initial?: T;
+  persist?: StorageTarget;
+  persistOptions?: PersistenceOptions<T>;
+}
+
+export interface StoreKey<T> {
+  readonly key: string;
+  readonly initial?: T;
+  readonly persist?: StorageTarget;
+  readonly persistOptions?: PersistenceOptions<T>;
+  // Type-only marker, never set at runtime. Keeps StoreKey<A> and StoreKey<B> incompatible.
+  readonly __valueType?: (value: T) => T;
+}
+
+export type StoreKeyRef<T = any> = string | StoreKey<T>;
+
+// Value type behind a key reference; plain string keys are untyped
+export type StoreKeyValue<K> = K extends StoreKey<infer V> ? V : any;
+export type StoreKeyValues<D extends readonly StoreKeyRef[]> = { [I in keyof D]: StoreKeyValue<D[I]> };
+
+const declaredStoreKeys = new Map<string, StoreKey<any>>();
+
+/**
+ * Defines a typed handle for a dynamic store key. The value type, default value and
+ * persistence settings are declared once and checked wherever the handle is used.
+ */
+export function defineStoreKey<T>(key: string, options: StoreKeyOptions<T> = {}): StoreKey<T> {
+  if (typeof key !== 'string' || !key) {
+    throw new Error('[ngrx-store-wrapper] defineStoreKey() requires a non-empty string key');
+  }
+  const storeKey: StoreKey<T> = Object.freeze({
+    key,
+    initial: options.initial,
+    persist: options.persist,
+    persistOptions: options.persistOptions
+  });
+  // Persisted keys are remembered so their migrations apply when the store restores
+  // state, which can happen before any code touches the handle itself.
+  if (options.persist) {
+    declaredStoreKeys.set(key, storeKey);
+  }
+  return storeKey;
+}
+
+export function getDeclaredStoreKey(key: string): StoreKey<any> | undefined {
+  return declaredStoreKeys.get(key);
+}
+
+export function isStoreKey(value: unknown): value is StoreKey<any> {
+  return typeof value === 'object' && value !== null && typeof (value as StoreKey<any>).key === 'string';
+}
+
+export function resolveKey(ref: StoreKeyRef): string {
+  return isStoreKey(ref) ? ref.key : ref;
+}
@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+import { of } from 'rxjs';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { provideStoreWrapperTesting } from './store-wrapper-testing';
+import { StorageType } from './storage-type.enum';
+import { defineStoreKey } from './store-key';
+import { StoreScope } from './store-scope';
+
+describe('StoreScope', () => {
+  let service: NgrxStoreWrapperService;
+  let scope: StoreScope;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideStoreWrapperTesting()]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+    scope = TestBed.runInInjectionContext(() => service.createScope('checkout'));
+  });
+
+  const keys = () => service.describeKeys().map(({ key }) => key);
+
+  it('prefixes the keys it writes', () => {
+    scope.set('step', 1);
+
+    expect(keys()).toEqual(['checkout/step']);
+    expect(service.getSignal(scope.fullKey('step'))()).toBe(1);
+  });
+
+  it('removes the keys and effects it created when destroyed', () => {
+    service.set('session', 'abc');
+    scope.set('step', 1);
+    scope.addEffect({ key: 'rates', serviceFn: () => of([1]), context: {} });
+    scope.destroy();
+
+    expect(keys()).toEqual(['session']);
+    expect(() => scope.set('step', 2)).toThrowError(/already been destroyed/);
+  });
+
+  it('removes typed keys that a read or enablePersistence() created', () => {
+    scope.get(defineStoreKey('cart', { initial: [] })).subscribe();
+    scope.enablePersistence(defineStoreKey('coupon', { initial: '' }), StorageType.Local);
+    expect(keys()).toEqual(['checkout/cart', 'checkout/coupon']);
+
+    scope.destroy();
+    expect(keys()).toEqual([]);
+  });
+
+  it('is destroyed with the injector it was created in', () => {
+    scope.set('step', 1);
+    TestBed.resetTestingModule();
+
+    expect(() => scope.set('step', 2)).toThrowError(/already been destroyed/);
+  });
+});
@@ -0,0 +1,232 @@
+import { Signal } from '@angular/core';
+import { Observable } from 'rxjs';
+import type {
+  EffectOptions,
+  HttpEffectOptions,
+  NgrxStoreWrapperService,
+  SetOptions,
+  SignalOptions,
+  StorePath
+} from './ngrx-store-wrapper.service';
+import { StoreKey, StoreKeyRef, StoreKeyValues, defineStoreKey, resolveKey } from './store-key';
+import { StorageTarget } from './storage-adapter';
+import { PersistenceOptions } from './persistence-options';
+import { EffectStatus } from './effect-status';
+import { Mutation, MutationOptions } from './mutation';
+import { EntityId, EntityKey, EntityUpdate, defineEntityKey, isEntityKey } from './entity-key';
+import { HistoryOptions } from './key-history';
+import { KeyValidator } from './write-validation';
+
+/**
+ * A namespaced view of the store. Keys passed to a scope are relative: `scope.set('cart', ...)`
+ * writes `'<name>/cart'`. Every key and effect created through the scope is removed when the
+ * scope is destroyed, which happens automatically with the owner it was created in.
+ */
+export class StoreScope {
+  private readonly keys = new Set<string>();
+  private readonly effects = new Set<string>();
+  private readonly schemas = new Set<string>();
+  private readonly scopedStoreKeys = new WeakMap<StoreKey<any>, StoreKey<any>>();
+  private destroyed = false;
+
+  constructor(readonly name: string, private readonly service: NgrxStoreWrapperService) {}
+
+  // Full store key for a scope-relative key, e.g. for use in global selectors
+  fullKey(key: string): string {
+    return `${this.name}/${key}`;
+  }
+
+  set<T = any>(key: StoreKeyRef<T>, value: T, options?: SetOptions): void {
+    this.service.set(this.track(key), value, options);
+  }
+
+  update<T = any>(key: StoreKeyRef<T>, updater: (current: T) => T): void {
+    this.service.update(this.track(key), updater);
+  }
+
+  patch<T = any>(key: StoreKeyRef<T>, partial: Partial<T>): void {
+    this.service.patch(this.track(key), partial);
+  }
+
+  setIn<T = any>(key: StoreKeyRef<T>, path: StorePath, value: any): void {
+    this.service.setIn(this.track(key), path, value);
+  }
+
+  setMany(values: Record<string, any>): void {
+    this.assertActive();
+    const scoped: Record<string, any> = {};
+    Object.entries(values).forEach(([key, value]) => (scoped[resolveKey(this.track(key))] = value));
+    this.service.setMany(scoped);
+  }
+
+  transaction<R>(fn: () => R): R {
+    this.assertActive();
+    return this.service.transaction(fn);
+  }
+
+  addOne<T>(key: EntityKey<T>, entity: T): void {
+    this.service.addOne(this.trackEntity(key), entity);
+  }
+
+  upsertMany<T>(key: EntityKey<T>, entities: T[]): void {
+    this.service.upsertMany(this.trackEntity(key), entities);
+  }
+
+  updateOne<T>(key: EntityKey<T>, update: EntityUpdate<T>): void {
+    this.service.updateOne(this.trackEntity(key), update);
+  }
+
+  removeOne<T>(key: EntityKey<T>, id: EntityId): void {
+    this.service.removeOne(this.trackEntity(key), id);
+  }
+
+  setAll<T>(key: EntityKey<T>, entities: T[]): void {
+    this.service.setAll(this.trackEntity(key), entities);
+  }
+
+  // The scoped handle for an entity key; use its selectors to read the scoped collection
+  entityKey<T>(key: EntityKey<T>): EntityKey<T> {
+    return this.scoped(key) as EntityKey<T>;
+  }
+
+  // Reading a StoreKey with an `initial` creates the key, so reads are tracked as well
+  get<T = any>(key: StoreKeyRef<T>): Observable<T> {
+    return this.service.get<T>(this.track(key));
+  }
+
+  getSignal<T = any>(key: StoreKeyRef<T>, options?: SignalOptions<T>): Signal<T | undefined> {
+    return this.service.getSignal(this.scoped(key), options);
+  }
+
+  getStatus(key: StoreKeyRef): Observable<EffectStatus> {
+    return this.service.getStatus(this.scoped(key));
+  }
+
+  // Dependencies are scope-relative as well
+  defineComputed<R, D extends StoreKeyRef[]>(
+    key: StoreKeyRef<R>,
+    deps: [...D],
+    projector: (...values: StoreKeyValues<D>) => R
+  ): void {
+    const scopedDeps = deps.map(dep => this.scoped(dep)) as [...D];
+    this.service.defineComputed(this.track(key), scopedDeps, projector);
+  }
+
+  registerSchema<T = any>(key: StoreKeyRef<T>, validator: KeyValidator<T>): void {
+    const scoped = this.scoped(key);
+    this.schemas.add(resolveKey(scoped));
+    this.service.registerSchema(scoped, validator);
+  }
+
+  enableHistory(key: StoreKeyRef, options?: HistoryOptions): void {
+    this.service.enableHistory(this.scoped(key), options);
+  }
+
+  undo(key: StoreKeyRef): void {
+    this.service.undo(this.scoped(key));
+  }
+
+  redo(key: StoreKeyRef): void {
+    this.service.redo(this.scoped(key));
+  }
+
+  enablePersistence<T = any>(key: StoreKeyRef<T>, type?: StorageTarget, options?: PersistenceOptions<T>): void {
+    this.service.enablePersistence(this.track(key) as StoreKey<T>, type, options);
+  }
+
+  disablePersistence(key: StoreKeyRef): void {
+    this.service.disablePersistence(this.scoped(key));
+  }
+
+  // Key lists in `deps` are scope-relative; use a selector to depend on keys outside the scope
+  addEffect<T = any, R = T>(options: EffectOptions<T, R>): void {
+    const deps = Array.isArray(options.deps) ? options.deps.map(dep => this.scoped(dep)) : options.deps;
+    this.service.addEffect({ ...options, key: this.trackEffect(options.key), deps });
+  }
+
+  addHttpEffect<T = any, R = T>(options: HttpEffectOptions<T, R>): void {
+    this.service.addHttpEffect({ ...options, key: this.trackEffect(options.key) });
+  }
+
+  recallEffect(key: StoreKeyRef, updatedArgs?: any): void {
+    this.service.recallEffect(this.scoped(key), updatedArgs);
+  }
+
+  addMutation<I = any, R = any, T = any>(options: MutationOptions<I, R, T>): Mutation<I, R> {
+    const invalidates = options.invalidates?.map(key => this.scoped(key));
+    return this.service.addMutation({ ...options, key: this.track(options.key), invalidates });
+  }
+
+  invalidate(key: StoreKeyRef): void {
+    this.service.invalidate(this.scoped(key));
+  }
+
+  invalidateMatching(prefix: string): void {
+    this.assertActive();
+    this.service.invalidateMatching(this.fullKey(prefix));
+  }
+
+  removeEffect(key: StoreKeyRef): void {
+    const scoped = this.scoped(key);
+    this.effects.delete(resolveKey(scoped));
+    this.service.removeEffect(scoped);
+  }
+
+  remove(key: StoreKeyRef): void {
+    const scoped = this.scoped(key);
+    const fullKey = resolveKey(scoped);
+    this.keys.delete(fullKey);
+    this.effects.delete(fullKey);
+    this.service.remove(scoped);
+  }
+
+  // Removes every effect, key and schema created through this scope. Called automatically when the owner is destroyed.
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.effects.forEach(key => this.service.removeEffect(key));
+    this.keys.forEach(key => this.service.remove(key));
+    this.schemas.forEach(key => this.service.unregisterSchema(key));
+    this.effects.clear();
+    this.keys.clear();
+    this.schemas.clear();
+  }
+
+  private track<T>(key: StoreKeyRef<T>): StoreKeyRef<T> {
+    const scoped = this.scoped(key);
+    this.keys.add(resolveKey(scoped));
+    return scoped;
+  }
+
+  private trackEntity<T>(key: EntityKey<T>): EntityKey<T> {
+    return this.track(key) as EntityKey<T>;
+  }
+
+  private trackEffect<T>(key: StoreKeyRef<T>): StoreKeyRef<T> {
+    const scoped = this.track(key);
+    this.effects.add(resolveKey(scoped));
+    return scoped;
+  }
+
+  private scoped<T>(key: StoreKeyRef<T>): StoreKeyRef<T> {
+    this.assertActive();
+    if (typeof key === 'string') {
+      return this.fullKey(key);
+    }
+    let scoped = this.scopedStoreKeys.get(key);
+    if (!scoped) {
+      const { persist, persistOptions } = key;
+      scoped = isEntityKey(key)
+        ? defineEntityKey(this.fullKey(key.key), { persist, persistOptions: key.persistOptions, selectId: key.selectId })
+        : defineStoreKey<T>(this.fullKey(key.key), { persist, persistOptions, initial: key.initial });
+      this.scopedStoreKeys.set(key, scoped);
+    }
+    return scoped;
+  }
+
+  private assertActive(): void {
+    if (this.destroyed) {
+      throw new Error(`[ngrx-store-wrapper] Store scope "${this.name}" has already been destroyed.`);
+    }
+  }
+}
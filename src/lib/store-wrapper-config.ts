@@ -0,0 +1,70 @@
+import { InjectionToken } from '@angular/core';
+import { EFFECT_STATUS_KEY } from './effect-status';
+import { PersistenceCodec } from './persistence-options';
+import { StorageAdapter } from './storage-adapter';
+import { StoreWrapperLogger } from './store-events';
+import { ActionTypeFormat } from './write-meta';
+import { WriteInterceptor } from './write-validation';
+
+export interface StoreWrapperSettings {
+  // Prepended to every storage key, the persisted keys metadata, the cross-tab channel and TransferState keys
+  storageKeyPrefix: string;
+  persistedKeysMetaKey: string;
+  syncChannelName: string;
+  transferStatePrefix: string;
+  // Store slice holding effect statuses
+  effectStatusKey: string;
+  // Dev-mode warning once more dynamic keys than this are registered
+  dynamicKeyWarnThreshold: number;
+  // How long get() waits for a key that nothing has set yet
+  getTimeoutMs: number;
+  // Delay before a changed value is written to storage
+  persistenceDebounceMs: number;
+}
+
+export interface NgrxStoreWrapperConfig extends Partial<StoreWrapperSettings> {
+  actionTypeFormat?: ActionTypeFormat;
+  // Default codec for persisted keys, see PERSISTENCE_DEFAULTS
+  persistence?: PersistenceCodec;
+  // Registered before persisted state is restored
+  storageAdapters?: Record<string, StorageAdapter>;
+  // Run on every write, restored values included, before interceptors added with addWriteInterceptor()
+  writeInterceptors?: WriteInterceptor[];
+  // Receives every lifecycle event, log messages included (default: prints log events to the console)
+  logger?: StoreWrapperLogger;
+  // Binds the global storeWrapper to this instance (default true). Further instances in child injectors pass false.
+  bindStoreWrapper?: boolean;
+}
+
+export const DEFAULT_STORE_WRAPPER_SETTINGS: Readonly<StoreWrapperSettings> = Object.freeze({
+  storageKeyPrefix: '',
+  persistedKeysMetaKey: '__ngrx_wrapper_persisted_keys__',
+  syncChannelName: '__ngrx_wrapper_sync__',
+  transferStatePrefix: '__ngrx_wrapper_effect__:',
+  effectStatusKey: EFFECT_STATUS_KEY,
+  dynamicKeyWarnThreshold: 100,
+  getTimeoutMs: 5000,
+  persistenceDebounceMs: 50
+});
+
+export const NGRX_STORE_WRAPPER_CONFIG = new InjectionToken<NgrxStoreWrapperConfig>('ngrx-store-wrapper config');
+
+export function resolveStoreWrapperSettings(config: NgrxStoreWrapperConfig | null): StoreWrapperSettings {
+  const settings = { ...DEFAULT_STORE_WRAPPER_SETTINGS };
+  if (config) {
+    (Object.keys(settings) as (keyof StoreWrapperSettings)[]).forEach(name => applySetting(settings, config, name));
+  }
+  return settings;
+}
+
+// Unset entries keep their default
+function applySetting<K extends keyof StoreWrapperSettings>(
+  settings: StoreWrapperSettings,
+  config: Partial<StoreWrapperSettings>,
+  name: K
+): void {
+  const value = config[name];
+  if (value !== undefined) {
+    settings[name] = value;
+  }
+}
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+import { of } from 'rxjs';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { StoreWrapperTestingController, provideStoreWrapperTesting } from './store-wrapper-testing';
+
+describe('provideStoreWrapperTesting', () => {
+  let service: NgrxStoreWrapperService;
+  let testing: StoreWrapperTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideStore(),
+        provideHttpClient(),
+        provideStoreWrapperTesting({ initialState: { user: 'ada' } })
+      ]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+    testing = TestBed.inject(StoreWrapperTestingController);
+  });
+
+  it('seeds state without recording it', () => {
+    expect(service.getSignal('user')()).toBe('ada');
+    expect(testing.writes()).toEqual([]);
+  });
+
+  it('records writes in order', () => {
+    service.set('count', 1);
+    service.update<number>('count', count => count + 1);
+
+    expect(testing.writes('count')).toEqual([
+      { key: 'count', kind: 'set', value: 1 },
+      { key: 'count', kind: 'update', value: 2 }
+    ]);
+  });
+
+  it('resolves stubbed effects and polls only when flushed', () => {
+    const serviceFn = jasmine.createSpy('serviceFn').and.returnValue(of('real'));
+    testing.stubEffect('rates', 1);
+    service.addEffect({ key: 'rates', serviceFn, context: {}, intervalMs: 1000 });
+
+    testing.stubEffect('rates', 2);
+    testing.flushPolling('rates');
+
+    expect(serviceFn).not.toHaveBeenCalled();
+    expect(testing.writes('rates').map(write => write.value)).toEqual([1, 2]);
+  });
+
+  it('reports stubbed effect errors on the status', () => {
+    spyOn(console, 'error');
+    testing.stubEffectError('rates', 'offline');
+    service.addEffect({ key: 'rates', serviceFn: () => of('real'), context: {} });
+
+    let error: any;
+    service.getStatus('rates').subscribe(status => (error = status.error));
+    expect(error).toBe('offline');
+  });
+});
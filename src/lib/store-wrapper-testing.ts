@@ -0,0 +1,128 @@
+import {
+  ENVIRONMENT_INITIALIZER,
+  EnvironmentProviders,
+  Injectable,
+  Injector,
+  inject,
+  makeEnvironmentProviders
+} from '@angular/core';
+import { Observable, Subject, isObservable, of, throwError } from 'rxjs';
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { resetStoreWrapper } from './ngrx-store-wrapper-wrapper';
+import { MemoryStorageAdapter } from './storage-adapter';
+import { StorageType } from './storage-type.enum';
+import { StoreKeyRef, resolveKey } from './store-key';
+import { STORE_WRAPPER_TESTING_HOOKS, StoreWrapperTestingHooks } from './testing-hooks';
+import { WriteKind } from './write-meta';
+
+export interface StoreWrapperTestingOptions {
+  // Values set before each test; they are not recorded as writes
+  initialState?: Record<string, any>;
+}
+
+export interface RecordedWrite {
+  key: string;
+  kind: WriteKind;
+  // Value of the key once the write was applied
+  value: any;
+}
+
+/**
+ * Test-side control over the wrapper, provided by provideStoreWrapperTesting().
+ * Effects with a stub never call the real service, and polling only ticks on flushPolling()
+ * (apart from the tick it starts with when the effect isn't immediate).
+ */
+@Injectable()
+export class StoreWrapperTestingController implements StoreWrapperTestingHooks {
+  // Resolved lazily: the service itself injects this controller
+  private readonly injector = inject(Injector);
+  private readonly stubs = new Map<string, () => Observable<any>>();
+  private readonly pollTriggers = new Map<string, Subject<void>>();
+  private recorded: RecordedWrite[] = [];
+  private seeding = false;
+
+  seed(values: Record<string, any>): void {
+    this.seeding = true;
+    try {
+      this.injector.get(NgrxStoreWrapperService).setMany(values);
+    } finally {
+      this.seeding = false;
+    }
+  }
+
+  // Every execution of the effect for `key` emits `value` (or subscribes to it, when it is an Observable)
+  stubEffect<T>(key: StoreKeyRef<T>, value: T | Observable<T>): void {
+    this.stubs.set(resolveKey(key), () => isObservable(value) ? value : of(value));
+  }
+
+  stubEffectError(key: StoreKeyRef, error: any): void {
+    this.stubs.set(resolveKey(key), () => throwError(() => error));
+  }
+
+  clearEffectStub(key: StoreKeyRef): void {
+    this.stubs.delete(resolveKey(key));
+  }
+
+  // Fires `ticks` polling intervals for one key, or for every polling effect
+  flushPolling(key?: StoreKeyRef, ticks = 1): void {
+    const triggers = key === undefined
+      ? [...this.pollTriggers.values()]
+      : [this.pollTriggers.get(resolveKey(key))];
+    for (let i = 0; i < ticks; i++) {
+      triggers.forEach(trigger => trigger?.next());
+    }
+  }
+
+  // Writes in the order they were applied, optionally for a single key
+  writes(key?: StoreKeyRef): RecordedWrite[] {
+    if (key === undefined) return [...this.recorded];
+    const name = resolveKey(key);
+    return this.recorded.filter(write => write.key === name);
+  }
+
+  clearWrites(): void {
+    this.recorded = [];
+  }
+
+  effectStub(key: string): (() => Observable<any>) | undefined {
+    return this.stubs.get(key);
+  }
+
+  pollTrigger(key: string): Observable<unknown> {
+    const trigger = new Subject<void>();
+    this.pollTriggers.set(key, trigger);
+    return trigger;
+  }
+
+  written(key: string, kind: WriteKind, value: any): void {
+    if (!this.seeding) {
+      this.recorded.push({ key, kind, value });
+    }
+  }
+}
+
+/**
+ * Test providers for code that uses storeWrapper or NgrxStoreWrapperService. Rebinds storeWrapper
+ * to the TestBed injector, keeps Local, Session and IndexedDb storage in memory and installs
+ * StoreWrapperTestingController. The store itself still comes from provideStore()/StoreModule.
+ */
+export function provideStoreWrapperTesting(options: StoreWrapperTestingOptions = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    StoreWrapperTestingController,
+    { provide: STORE_WRAPPER_TESTING_HOOKS, useExisting: StoreWrapperTestingController },
+    {
+      provide: ENVIRONMENT_INITIALIZER,
+      multi: true,
+      useValue: () => {
+        const service = inject(NgrxStoreWrapperService);
+        [StorageType.Local, StorageType.Session, StorageType.IndexedDb].forEach(type =>
+          service.registerStorageAdapter(type, new MemoryStorageAdapter())
+        );
+        resetStoreWrapper();
+        if (options.initialState) {
+          inject(StoreWrapperTestingController).seed(options.initialState);
+        }
+      }
+    }
+  ]);
+}
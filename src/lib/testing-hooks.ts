@@ -0,0 +1,17 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { WriteKind } from './write-meta';
+
+// Seams the service exposes to provideStoreWrapperTesting(); not part of the public API
+export interface StoreWrapperTestingHooks {
+  // Replacement source for an effect execution, or undefined to run the real one
+  effectStub(key: string): (() => Observable<any>) | undefined;
+  // Replaces the interval that drives a polling effect
+  pollTrigger(key: string, intervalMs: number): Observable<unknown>;
+  // Called after each committed write with the key's resulting value
+  written(key: string, kind: WriteKind, value: any): void;
+}
+
+export const STORE_WRAPPER_TESTING_HOOKS = new InjectionToken<StoreWrapperTestingHooks>(
+  'ngrx-store-wrapper testing hooks'
+);
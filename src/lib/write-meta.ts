@@ -0,0 +1,35 @@
+import { InjectionToken } from '@angular/core';
+
+export type WriteKind = 'set' | 'update' | 'patch' | 'setIn' | 'entity';
+
+// Where a write came from: the public API, an effect, a persistence restore, another tab,
+// undo/redo, an effect value transferred from the server, a mutation's optimistic update/rollback
+// or a key reset after its TTL lapsed
+export type WriteSource = 'manual' | 'effect' | 'restore' | 'sync' | 'history' | 'hydration' | 'mutation' | 'expiry';
+
+// What started an effect execution: registration, its polling interval, recallEffect(), a dependency change or invalidate()
+export type EffectTrigger = 'initial' | 'poll' | 'recall' | 'deps' | 'invalidate';
+
+// Attached as `meta` to every generated action so DevTools and meta-reducers can tell writes apart
+export interface WriteMeta {
+  source: WriteSource;
+  // Set for effect writes
+  effectKey?: string;
+  trigger?: EffectTrigger;
+}
+
+// Builds the action type for a dynamic key operation; defaults to `[key] Set`, `[key] Patch`, ...
+export type ActionTypeFormat = (key: string, kind: WriteKind) => string;
+
+const KIND_LABELS: Record<WriteKind, string> = {
+  set: 'Set',
+  update: 'Update',
+  patch: 'Patch',
+  setIn: 'Set In',
+  entity: 'Update Entities'
+};
+
+// Provide an ActionTypeFormat under this token to rename the generated action types
+export const ACTION_TYPE_FORMAT = new InjectionToken<ActionTypeFormat>('ngrx-store-wrapper action type format');
+
+export const defaultActionTypeFormat: ActionTypeFormat = (key, kind) => `[${key}] ${KIND_LABELS[kind]}`;
@@ -0,0 +1,39 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideStore } from '@ngrx/store';
+
+import { NgrxStoreWrapperService } from './ngrx-store-wrapper.service';
+import { provideStoreWrapperTesting } from './store-wrapper-testing';
+import { InterceptedWrite, StoreWriteRejectedError } from './write-validation';
+
+describe('write interceptors', () => {
+  let service: NgrxStoreWrapperService;
+  let seen: InterceptedWrite[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideStore(), provideHttpClient(), provideStoreWrapperTesting()]
+    });
+    service = TestBed.inject(NgrxStoreWrapperService);
+    seen = [];
+    service.addWriteInterceptor(write => {
+      seen.push(write);
+      if (write.value === 'forbidden') write.reject('not allowed');
+    });
+  });
+
+  it('does not create a key whose first write is rejected', () => {
+    expect(() => service.set('note', 'forbidden')).toThrowError(StoreWriteRejectedError);
+
+    expect(service.describeKeys().map(({ key }) => key)).not.toContain('note');
+  });
+
+  it('never sees writes to computed keys', () => {
+    service.set('price', 10);
+    service.defineComputed<number, ['price']>('gross', ['price'], price => price * 2);
+    spyOn(console, 'warn');
+    service.set('gross', 1);
+
+    expect(seen.map(write => write.key)).toEqual(['price']);
+  });
+});
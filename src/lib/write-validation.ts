@@ -0,0 +1,65 @@
+import { WriteKind, WriteMeta, WriteSource } from './write-meta';
+
+// The parts of the Standard Schema interface (https://standardschema.dev) the wrapper uses.
+// Zod, Valibot, ArkType and others implement it.
+export interface StandardSchemaLike<T = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+// A predicate or a schema. Schemas only validate: the written value is stored, not the schema's output.
+export type KeyValidator<T = any> = ((value: T) => boolean) | StandardSchemaLike<T>;
+
+export interface InterceptedWrite<T = any> {
+  key: string;
+  kind: WriteKind;
+  // Value the key will hold after the write
+  value: T;
+  previous: T | undefined;
+  meta: WriteMeta;
+  reject(reason: string): never;
+}
+
+// Returns the value to write; returning undefined keeps it unchanged. Throw or call reject() to stop the write.
+export type WriteInterceptor = (write: InterceptedWrite) => any;
+
+export class StoreWriteRejectedError extends Error {
+  override readonly name = 'StoreWriteRejectedError';
+
+  constructor(
+    readonly key: string,
+    readonly source: WriteSource,
+    readonly reason: string,
+    readonly issues: ReadonlyArray<StandardSchemaIssue> = []
+  ) {
+    super(`[ngrx-store-wrapper] Write to key "${key}" rejected: ${reason}`);
+  }
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaLike {
+  return typeof value === 'object' && value !== null && typeof (value as StandardSchemaLike)['~standard']?.validate === 'function';
+}
+
+// Writes are synchronous, so schemas that validate asynchronously are rejected
+export function runValidator(validator: KeyValidator, value: any): StandardSchemaResult<any> {
+  if (typeof validator === 'function') {
+    return validator(value) ? { value } : { issues: [{ message: 'validator returned false' }] };
+  }
+  const result = validator['~standard'].validate(value);
+  if (result instanceof Promise) {
+    throw new Error('[ngrx-store-wrapper] Asynchronous schemas are not supported by registerSchema()');
+  }
+  return result;
+}
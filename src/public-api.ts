@@ -1,4 +1,68 @@
-export * from './lib/ngrx-store-wrapper-wrapper';
+export { provideNgrxStoreWrapper, provideStoreEffects, storeWrapper } from './lib/ngrx-store-wrapper-wrapper';
 export * from './lib/ngrx-store-wrapper-initial.config';
 export * from './lib/storage-type.enum';
-export { AutoBind } from './lib/ngrx-store-wrapper.service';
+export {
+  StorageAdapter,
+  StorageTarget,
+  WebStorageAdapter,
+  MemoryStorageAdapter,
+  IndexedDbStorageAdapter
+} from './lib/storage-adapter';
+export {
+  PERSISTENCE_DEFAULTS,
+  ExpiryAction,
+  PersistenceCodec,
+  PersistenceOptions,
+  PersistenceTransform,
+  PersistenceTransformUnavailableError
+} from './lib/persistence-options';
+export {
+  createCompressionTransform,
+  createEncryptionTransform,
+  CompressionTransformOptions
+} from './lib/persistence-transforms';
+export { EffectStatus } from './lib/effect-status';
+export { HistoryOptions } from './lib/key-history';
+export { defineStoreKey, StoreKey, StoreKeyOptions, StoreKeyRef, StoreKeyValue, StoreKeyValues } from './lib/store-key';
+export { StoreScope } from './lib/store-scope';
+export {
+  consoleLogger,
+  StoreWrapperEvent,
+  StoreWrapperEventOf,
+  StoreWrapperEventType,
+  StoreWrapperLogLevel,
+  StoreWrapperLogger
+} from './lib/store-events';
+export { Mutation, MutationHttpOptions, MutationOptions } from './lib/mutation';
+export { defineEntityKey, EntityId, EntityKey, EntityKeyOptions, EntityState, EntityUpdate } from './lib/entity-key';
+export {
+  StoreWrapperTestingController,
+  provideStoreWrapperTesting,
+  RecordedWrite,
+  StoreWrapperTestingOptions
+} from './lib/store-wrapper-testing';
+export { NGRX_STORE_WRAPPER_CONFIG, NgrxStoreWrapperConfig, StoreWrapperSettings } from './lib/store-wrapper-config';
+export {
+  StoreWriteRejectedError,
+  InterceptedWrite,
+  KeyValidator,
+  StandardSchemaIssue,
+  StandardSchemaLike,
+  StandardSchemaResult,
+  WriteInterceptor
+} from './lib/write-validation';
+export { ACTION_TYPE_FORMAT, ActionTypeFormat, EffectTrigger, WriteKind, WriteMeta, WriteSource } from './lib/write-meta';
+export { StoreEffect, StoreEffectOptions } from './lib/store-effects';
+export {
+  AutoBind,
+  EffectConcurrency,
+  EffectExecutionOptions,
+  EffectOptions,
+  EffectRetryOptions,
+  EntityListWrite,
+  HttpEffectOptions,
+  KeyDescription,
+  SetOptions,
+  SignalOptions,
+  StorePath
+} from './lib/ngrx-store-wrapper.service';